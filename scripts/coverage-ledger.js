@@ -0,0 +1,60 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Configuration
+const LEDGER_FILE = path.join(__dirname, '..', 'src', 'data', 'coverage-ledger.json');
+
+/**
+ * Load the coverage ledger or return an empty array
+ */
+export function loadLedger() {
+    if (!fs.existsSync(LEDGER_FILE)) {
+        return [];
+    }
+
+    try {
+        return JSON.parse(fs.readFileSync(LEDGER_FILE, 'utf-8'));
+    } catch (error) {
+        // Same policy as the archive: never overwrite a file we failed to read
+        throw new Error('Critical: Failed to parse coverage ledger. Aborting to prevent data loss.');
+    }
+}
+
+/**
+ * Append entries to the coverage ledger, skipping ids already recorded
+ * (e.g. a cached API response recorded by an earlier run)
+ */
+export function appendLedgerEntries(entries) {
+    const ledger = loadLedger();
+    const knownIds = new Set(ledger.map(entry => entry.id));
+    const newEntries = entries.filter(entry => !knownIds.has(entry.id));
+
+    if (newEntries.length === 0) {
+        return 0;
+    }
+
+    ledger.push(...newEntries);
+    fs.mkdirSync(path.dirname(LEDGER_FILE), { recursive: true });
+    fs.writeFileSync(LEDGER_FILE, JSON.stringify(ledger, null, 2));
+    console.log(`✅ Recorded ${newEntries.length} coverage entries in ${path.relative(process.cwd(), LEDGER_FILE)}`);
+    return newEntries.length;
+}
+
+/**
+ * Get the oldest and newest creation times of a list of incidents
+ */
+export function getIncidentRange(incidents) {
+    const times = incidents
+        .map(incident => incident.created_at)
+        .filter(Boolean)
+        .sort((a, b) => new Date(a) - new Date(b));
+
+    return {
+        oldestIncidentAt: times.length > 0 ? times[0] : null,
+        newestIncidentAt: times.length > 0 ? times[times.length - 1] : null,
+    };
+}
@@ -1,35 +1,57 @@
 import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import { appendLedgerEntries, getIncidentRange } from './coverage-ledger.js';
+import {
+    createFileCache,
+    createFixtureTransport,
+    createRecordingTransport,
+    createStatusClient,
+    DEFAULT_CLIENT_OPTIONS,
+} from './status-client.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
 // Configuration
-const GITHUB_STATUS_API = 'https://www.githubstatus.com/api/v2';
 const CACHE_DIR = path.join(__dirname, '..', '.astro', 'cache');
 const CACHE_FILE = path.join(CACHE_DIR, 'github-data.json');
+const RESPONSE_CACHE_FILE = path.join(CACHE_DIR, 'status-responses.json');
 const DATA_DIR = path.join(__dirname, '..', 'src', 'data');
 const ARCHIVE_FILE = path.join(DATA_DIR, 'incidents-archive.json');
 const COMPONENTS_FILE = path.join(DATA_DIR, 'components.json');
+const MAINTENANCE_FILE = path.join(DATA_DIR, 'maintenance-archive.json');
 const CACHE_DURATION = 1000 * 60 * 60; // 1 hour
+const API_INCIDENT_LIMIT = 50; // incidents.json only returns the most recent incidents
+
+/**
+ * Choose how to reach the API: replay responses from STATUS_API_FIXTURES (a directory) when set,
+ * record them into STATUS_API_RECORD when set, otherwise call the API directly
+ */
+function getTransport() {
+    if (process.env.STATUS_API_FIXTURES) {
+        console.log(`Replaying recorded responses from ${process.env.STATUS_API_FIXTURES}`);
+        return createFixtureTransport(process.env.STATUS_API_FIXTURES);
+    }
+    if (process.env.STATUS_API_RECORD) {
+        console.log(`Recording responses into ${process.env.STATUS_API_RECORD}`);
+        return createRecordingTransport(process.env.STATUS_API_RECORD);
+    }
+    return DEFAULT_CLIENT_OPTIONS.transport;
+}
+
+const statusClient = createStatusClient({
+    transport: getTransport(),
+    cache: createFileCache(RESPONSE_CACHE_FILE),
+});
 
 /**
  * Fetch data from GitHub Status API with error handling
  */
 async function fetchGitHubAPI(endpoint) {
-    const url = `${GITHUB_STATUS_API}/${endpoint}`;
-
     try {
-        console.log(`Fetching: ${url}`);
-        const response = await fetch(url);
-
-        if (!response.ok) {
-            throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-        }
-
-        const data = await response.json();
-        return data;
+        console.log(`Fetching: ${endpoint}`);
+        return await statusClient.get(endpoint);
     } catch (error) {
         console.error(`Error fetching ${endpoint}:`, error.message);
         throw error;
@@ -90,10 +112,11 @@ function saveCache(data) {
 async function fetchFreshData() {
     console.log('\n📡 Fetching fresh data from GitHub Status API...\n');
 
-    // Fetch incidents and components in parallel
-    const [incidentsData, componentsData] = await Promise.all([
+    // Fetch incidents, components and scheduled maintenances in parallel
+    const [incidentsData, componentsData, maintenancesData] = await Promise.all([
         fetchGitHubAPI('incidents.json'),
-        fetchGitHubAPI('components.json')
+        fetchGitHubAPI('components.json'),
+        fetchGitHubAPI('scheduled-maintenances.json')
     ]);
 
     if (incidentsData.incidents && incidentsData.incidents.length === 0) {
@@ -103,6 +126,7 @@ async function fetchFreshData() {
     return {
         incidents: incidentsData.incidents || [],
         components: componentsData.components || [],
+        scheduledMaintenances: maintenancesData.scheduled_maintenances || [],
         fetchedAt: new Date().toISOString()
     };
 }
@@ -171,10 +195,29 @@ function loadExistingArchive() {
     }
 }
 
+/**
+ * Load existing maintenance archive or return empty array
+ */
+function loadExistingMaintenances() {
+    if (!fs.existsSync(MAINTENANCE_FILE)) {
+        console.log('No existing maintenance archive found, will create new one');
+        return [];
+    }
+
+    try {
+        const archive = JSON.parse(fs.readFileSync(MAINTENANCE_FILE, 'utf-8'));
+        console.log(`Loaded existing maintenance archive: ${archive.length} maintenances`);
+        return archive;
+    } catch (error) {
+        console.error('Failed to load existing maintenance archive:', error.message);
+        throw new Error('Critical: Failed to parse existing maintenance archive. Aborting to prevent data loss.');
+    }
+}
+
 /**
  * Save data to files
  */
-function saveData(incidents, components) {
+function saveData(incidents, components, maintenances) {
     // Ensure data directory exists
     fs.mkdirSync(DATA_DIR, { recursive: true });
 
@@ -185,6 +228,40 @@ function saveData(incidents, components) {
     // Save components
     fs.writeFileSync(COMPONENTS_FILE, JSON.stringify(components, null, 2));
     console.log(`✅ Saved ${components.length} components to ${path.relative(process.cwd(), COMPONENTS_FILE)}`);
+
+    // Save scheduled maintenance archive
+    fs.writeFileSync(MAINTENANCE_FILE, JSON.stringify(maintenances, null, 2));
+    console.log(`✅ Saved ${maintenances.length} maintenances to ${path.relative(process.cwd(), MAINTENANCE_FILE)}`);
+}
+
+/**
+ * Build the coverage ledger entry for an API fetch
+ *
+ * The API lists the most recent incidents, so every incident created between the
+ * oldest one returned and the fetch time was visible. If the full page came back
+ * and none of it was already archived, older incidents may have been missed.
+ */
+function buildLedgerEntry(data, addedCount, archiveSize) {
+    const { oldestIncidentAt, newestIncidentAt } = getIncidentRange(data.incidents);
+    const possibleGap = archiveSize > 0 &&
+        data.incidents.length >= API_INCIDENT_LIMIT &&
+        addedCount === data.incidents.length;
+
+    return {
+        id: `api-${data.fetchedAt}`,
+        source: 'api',
+        fetchedAt: data.fetchedAt,
+        rangeStart: oldestIncidentAt || data.fetchedAt,
+        rangeEnd: data.fetchedAt,
+        oldestIncidentAt,
+        newestIncidentAt,
+        incidentCount: data.incidents.length,
+        newIncidentCount: addedCount,
+        possibleGap,
+        ...(possibleGap && {
+            note: `Fetch at ${data.fetchedAt} returned ${data.incidents.length} incidents, all new: incidents before ${oldestIncidentAt} may be missing`
+        }),
+    };
 }
 
 /**
@@ -260,8 +337,23 @@ async function main() {
         console.log(`   - Incidents Updated: ${updatedCount}`);
         console.log(`   - Total Unique Incidents: ${mergedIncidents.length}\n`);
 
+        // Merge scheduled maintenances the same way (caches written before they were fetched have none)
+        const { merged: mergedMaintenances, addedCount: addedMaintenances } = mergeIncidents(
+            data.scheduledMaintenances || [],
+            loadExistingMaintenances()
+        );
+        console.log(`   - New Maintenances Added: ${addedMaintenances}`);
+        console.log(`   - Total Maintenances: ${mergedMaintenances.length}\n`);
+
         // Save to files
-        saveData(mergedIncidents, data.components);
+        saveData(mergedIncidents, data.components, mergedMaintenances);
+
+        // Record the time range this fetch observed
+        const ledgerEntry = buildLedgerEntry(data, addedCount, existingArchive.length);
+        if (ledgerEntry.possibleGap) {
+            console.warn(`⚠️  Possible gap: ${ledgerEntry.note}`);
+        }
+        appendLedgerEntries([ledgerEntry]);
 
         // Print summary
         printSummary(mergedIncidents, data.components);
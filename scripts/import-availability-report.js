@@ -0,0 +1,175 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Configuration
+const REPORTS_DIR = path.join(__dirname, '..', 'src', 'data', 'availability-reports');
+const REPORT_URL_BASE = 'https://github.blog/news-insights/company-news/github-availability-report';
+const MONTH_NAMES = [
+    'January', 'February', 'March', 'April', 'May', 'June',
+    'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+// Incident headings look like "January 13 23:35 UTC (lasting 49 minutes)"
+const HEADING_PATTERN = new RegExp(
+    `^(${MONTH_NAMES.join('|')})\\s+(\\d{1,2})(?:,?\\s+\\d{4})?\\s+(?:at\\s+)?(\\d{1,2}):(\\d{2})\\s*UTC\\s*\\(lasting\\s+([^)]+)\\)`,
+    'i'
+);
+
+/**
+ * Get the blog post URL of a month's report
+ */
+function getReportUrl(year, month) {
+    return `${REPORT_URL_BASE}-${MONTH_NAMES[month - 1].toLowerCase()}-${year}/`;
+}
+
+/**
+ * Reduce an HTML page to its text, one block element per line
+ */
+function htmlToText(html) {
+    return html
+        .replace(/<(script|style|noscript)[\s\S]*?<\/\1>/gi, '')
+        .replace(/<\/?(h[1-6]|p|div|li|br|section|article|header)[^>]*>/gi, '\n')
+        .replace(/<[^>]+>/g, '')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&#8217;|&rsquo;/g, '\'')
+        .replace(/&#8220;|&#8221;|&ldquo;|&rdquo;|&quot;/g, '"')
+        .replace(/&#8211;|&ndash;/g, '–')
+        .replace(/&#8212;|&mdash;/g, '—')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&amp;/g, '&');
+}
+
+/**
+ * Convert "2 hours and 5 minutes" (or days) into minutes
+ */
+function parseDurationMinutes(text) {
+    const units = { day: 24 * 60, hour: 60, minute: 1 };
+    let minutes = 0;
+
+    for (const [, value, unit] of text.matchAll(/(\d+)\s*(day|hour|minute)s?/gi)) {
+        minutes += parseInt(value) * units[unit.toLowerCase()];
+    }
+    return minutes;
+}
+
+/**
+ * Extract the incidents a report lists, with the paragraph following each heading as its summary
+ */
+function parseReportIncidents(text, year, month) {
+    const lines = text.split('\n').map(line => line.replace(/^#+\s*/, '').trim()).filter(Boolean);
+    const incidents = [];
+
+    lines.forEach((line, index) => {
+        const match = line.match(HEADING_PATTERN);
+        if (!match) return;
+
+        const [, monthName, day, hours, minutes, duration] = match;
+        const incidentMonth = MONTH_NAMES.findIndex(name => name.toLowerCase() === monthName.toLowerCase()) + 1;
+        // A report can open with an incident that started late the month before (December in a January report)
+        const incidentYear = incidentMonth > month ? year - 1 : year;
+        const startedAt = new Date(Date.UTC(incidentYear, incidentMonth - 1, parseInt(day), parseInt(hours), parseInt(minutes)));
+        const summary = lines.slice(index + 1).find(next => !HEADING_PATTERN.test(next)) || '';
+
+        incidents.push({
+            startedAt: startedAt.toISOString(),
+            durationMinutes: parseDurationMinutes(duration),
+            summary,
+        });
+    });
+
+    return incidents;
+}
+
+/**
+ * Load a report imported earlier, or null
+ */
+function loadExistingReport(filePath) {
+    if (!fs.existsSync(filePath)) {
+        return null;
+    }
+
+    try {
+        return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch (error) {
+        // Never overwrite hand-made annotations we failed to read
+        throw new Error(`Critical: Failed to parse ${path.basename(filePath)}. Aborting to prevent data loss.`);
+    }
+}
+
+/**
+ * Main execution
+ */
+async function main() {
+    console.log('🚀 GitHub SLA Tracker - Availability Report Importer\n');
+
+    try {
+        const args = process.argv.slice(2);
+        const monthArg = args.find(arg => /^\d{4}-(0[1-9]|1[0-2])$/.test(arg));
+        if (!monthArg) {
+            throw new Error('Usage: npm run import-availability-report -- YYYY-MM [--file report.html]');
+        }
+
+        const [year, month] = monthArg.split('-').map(n => parseInt(n));
+        const source = getReportUrl(year, month);
+        let content;
+
+        // Read a saved copy of the post when given, otherwise fetch it
+        if (args.includes('--file')) {
+            const file = args[args.indexOf('--file') + 1];
+            console.log(`Reading: ${file}`);
+            content = fs.readFileSync(file, 'utf-8');
+        } else {
+            console.log(`Fetching: ${source}`);
+            const response = await fetch(source);
+            if (!response.ok) {
+                throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+            }
+            content = await response.text();
+        }
+
+        const incidents = parseReportIncidents(htmlToText(content), year, month);
+        if (incidents.length === 0) {
+            console.warn('⚠️  No incident headings found; the report lists none or its format changed');
+        }
+
+        // Keep incident ids and services annotated by hand on a previous import
+        const filePath = path.join(REPORTS_DIR, `${monthArg}.json`);
+        const existing = loadExistingReport(filePath);
+        const annotations = new Map((existing?.incidents || []).map(incident => [incident.startedAt, incident]));
+
+        const report = {
+            month: monthArg,
+            source,
+            importedAt: new Date().toISOString(),
+            incidents: incidents.map(incident => {
+                const previous = annotations.get(incident.startedAt);
+                return {
+                    ...incident,
+                    ...(previous?.incidentId && { incidentId: previous.incidentId }),
+                    ...(previous?.components && { components: previous.components }),
+                };
+            }),
+        };
+
+        fs.mkdirSync(REPORTS_DIR, { recursive: true });
+        fs.writeFileSync(filePath, JSON.stringify(report, null, 2) + '\n');
+
+        console.log(`\n📦 ${incidents.length} incidents reported for ${MONTH_NAMES[month - 1]} ${year}`);
+        incidents.forEach(incident => {
+            console.log(`   - ${incident.startedAt} (${incident.durationMinutes}m): ${incident.summary.slice(0, 80)}`);
+        });
+        console.log(`\n✅ Saved to ${path.relative(process.cwd(), filePath)}`);
+        console.log('✨ Import completed successfully!\n');
+    } catch (error) {
+        console.error('\n❌ Error:', error.message);
+        process.exit(1);
+    }
+}
+
+// Run if executed directly
+main();
@@ -2,6 +2,7 @@ import { chromium } from 'playwright';
 import fs from 'fs/promises';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import { appendLedgerEntries, getIncidentRange } from './coverage-ledger.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -173,11 +174,27 @@ async function scrapeIncidentDetail(page, incidentId) {
       };
     }).reverse(); // Reverse to get chronological order (oldest first)
 
+    // Get postmortem, published under its own h2 once the incident review is done
+    const postmortemHeading = Array.from(document.querySelectorAll('h2')).find(h2 =>
+      h2.textContent.trim() === 'Postmortem'
+    );
+    let postmortem = null;
+    if (postmortemHeading) {
+      const textContent = postmortemHeading.parentElement.textContent;
+      const bodyMatch = textContent.match(/^(.+?)Posted/s);
+      const timestampMatch = textContent.match(/(\w+\s+\d+,\s+\d{4}\s+-\s+\d+:\d+\s+UTC)/);
+      postmortem = {
+        body: bodyMatch ? bodyMatch[1].replace(postmortemHeading.textContent, '').trim() : '',
+        updatedAt: timestampMatch ? timestampMatch[1] : null,
+      };
+    }
+
     return {
       title: title ? title.textContent.trim() : null,
       impact: impact,
       componentText: componentText,
       updates: updates,
+      postmortem: postmortem,
     };
   });
 
@@ -238,6 +255,10 @@ function convertToAPIFormat(historyData, detailData) {
     started_at: startedAt,
     shortlink: `https://stspg.io/${historyData.id}`,
     incident_updates: updates,
+    ...(detailData.postmortem?.body && {
+      postmortem_body: detailData.postmortem.body,
+      postmortem_body_last_updated_at: parseGitHubDate(detailData.postmortem.updatedAt),
+    }),
     components: components.map(name => ({
       code: name.toLowerCase().replace(/\s+/g, '_'),
       name: name,
@@ -271,6 +292,42 @@ function mergeIncidents(newIncidents, existingIncidents = []) {
   return merged;
 }
 
+/**
+ * Build the coverage ledger entry for a scraped history page
+ *
+ * History pages list whole months, so the page covers every month from its oldest
+ * incident through its newest one (through the scrape time for page 1).
+ * Incidents that failed to scrape are flagged as a possible gap.
+ */
+function buildLedgerEntry(pageResult, existingIds) {
+  const { pageNumber, scrapedAt, incidents, skippedCount } = pageResult;
+  const { oldestIncidentAt, newestIncidentAt } = getIncidentRange(incidents);
+  const oldest = new Date(oldestIncidentAt);
+  const newest = new Date(newestIncidentAt);
+
+  const rangeStart = new Date(Date.UTC(oldest.getUTCFullYear(), oldest.getUTCMonth(), 1));
+  const rangeEnd = pageNumber === 1
+    ? new Date(scrapedAt)
+    : new Date(Date.UTC(newest.getUTCFullYear(), newest.getUTCMonth() + 1, 1) - 1);
+
+  return {
+    id: `scrape-p${pageNumber}-${scrapedAt}`,
+    source: 'scrape',
+    fetchedAt: scrapedAt,
+    rangeStart: rangeStart.toISOString(),
+    rangeEnd: rangeEnd.toISOString(),
+    oldestIncidentAt,
+    newestIncidentAt,
+    incidentCount: incidents.length,
+    newIncidentCount: incidents.filter(incident => !existingIds.has(incident.id)).length,
+    page: pageNumber,
+    possibleGap: skippedCount > 0,
+    ...(skippedCount > 0 && {
+      note: `History page ${pageNumber} scraped at ${scrapedAt}: ${skippedCount} incidents could not be scraped`
+    }),
+  };
+}
+
 /**
  * Main scraper function
  */
@@ -303,6 +360,7 @@ async function main() {
 
   try {
     const allScrapedIncidents = [];
+    const pageResults = [];
 
     // Loop through page range
     for (let pageNum = startPage; pageNum <= endPage; pageNum++) {
@@ -311,6 +369,7 @@ async function main() {
       console.log('='.repeat(60));
 
       // Step 1: Scrape history page
+      const scrapedAt = new Date().toISOString();
       const historyIncidents = await scrapeHistoryPage(page, pageNum);
 
       if (historyIncidents.length === 0) {
@@ -347,6 +406,15 @@ async function main() {
       console.log(`\n✅ Page ${pageNum}: Successfully scraped ${pageScrapedIncidents.length} incidents`);
       allScrapedIncidents.push(...pageScrapedIncidents);
 
+      if (pageScrapedIncidents.length > 0) {
+        pageResults.push({
+          pageNumber: pageNum,
+          scrapedAt,
+          incidents: pageScrapedIncidents,
+          skippedCount: historyIncidents.length - pageScrapedIncidents.length,
+        });
+      }
+
       // Add delay between pages to be respectful
       if (pageNum < endPage) {
         console.log(`\n⏸️  Waiting 3 seconds before next page...`);
@@ -373,6 +441,10 @@ async function main() {
 
     await fs.writeFile(archivePath, JSON.stringify(merged, null, 2));
 
+    // Step 5: Record the time ranges each page observed
+    const existingIds = new Set(existingIncidents.map(incident => incident.id));
+    appendLedgerEntries(pageResults.map(result => buildLedgerEntry(result, existingIds)));
+
     console.log(`\n✨ Done! Added ${allScrapedIncidents.length} new incidents, total archive: ${merged.length}`);
 
   } catch (err) {
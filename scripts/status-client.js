@@ -0,0 +1,316 @@
+import fs from 'fs';
+import path from 'path';
+import { z } from 'astro/zod';
+
+/**
+ * GitHub Status API client shared by the fetch script and src/lib/github-api.ts
+ *
+ * Each request times out, is retried with jittered exponential backoff on network errors, timeouts,
+ * 408, 429 and 5xx responses, and sends the ETag and Last-Modified of the last response it cached so
+ * an unchanged endpoint answers 304 and the cached body is reused. Responses are validated before
+ * they are returned. The transport is pluggable, so tests and offline runs can replay recorded
+ * responses instead of calling the API.
+ */
+
+// Configuration
+export const STATUS_API_BASE = 'https://www.githubstatus.com/api/v2';
+
+/**
+ * @typedef {object} TransportRequest
+ * @property {string} url
+ * @property {string} endpoint - Path below the API base, e.g. "incidents.json"
+ * @property {Record<string, string>} headers
+ * @property {AbortSignal} signal
+ */
+
+/**
+ * @typedef {(request: TransportRequest) => Promise<Response>} Transport
+ */
+
+/**
+ * @typedef {object} CachedResponse
+ * @property {string | null} etag
+ * @property {string | null} lastModified
+ * @property {unknown} body
+ */
+
+/**
+ * @typedef {object} ResponseCache
+ * @property {(url: string) => CachedResponse | undefined} get
+ * @property {(url: string, entry: CachedResponse) => void} set
+ */
+
+/**
+ * @typedef {object} StatusClientOptions
+ * @property {string} [baseUrl]
+ * @property {Transport} [transport]
+ * @property {ResponseCache | null} [cache] - Where ETags and bodies are kept for conditional requests
+ * @property {number} [timeoutMs] - Per attempt
+ * @property {number} [retries] - Attempts after the first
+ * @property {number} [baseDelayMs] - Backoff before the first retry, doubled for each one after
+ * @property {number} [maxDelayMs]
+ * @property {(ms: number) => Promise<void>} [sleep]
+ * @property {() => number} [random] - Jitter source in [0, 1)
+ */
+
+/** @type {Required<Omit<StatusClientOptions, 'cache'>> & { cache: ResponseCache | null }} */
+export const DEFAULT_CLIENT_OPTIONS = {
+    baseUrl: STATUS_API_BASE,
+    transport: request => fetch(request.url, { headers: request.headers, signal: request.signal }),
+    cache: null,
+    timeoutMs: 15000,
+    retries: 4,
+    baseDelayMs: 1000,
+    maxDelayMs: 30000,
+    sleep: ms => new Promise(resolve => setTimeout(resolve, ms)),
+    random: Math.random,
+};
+
+// Response schemas, matched to what the build validates (content collections, parseMaintenances)
+// so that anything accepted can be archived and loads again
+const incidentUpdateSchema = z.object({
+    id: z.string(),
+    status: z.string(),
+    body: z.string(),
+    created_at: z.string(),
+}).passthrough();
+
+const componentSchema = z.object({
+    id: z.string(),
+    name: z.string(),
+    status: z.enum(['operational', 'degraded_performance', 'partial_outage', 'major_outage', 'under_maintenance']),
+    created_at: z.string(),
+    updated_at: z.string(),
+    position: z.number(),
+}).passthrough();
+
+const incidentSchema = z.object({
+    id: z.string(),
+    name: z.string(),
+    status: z.enum(['investigating', 'identified', 'monitoring', 'resolved', 'postmortem']),
+    impact: z.enum(['none', 'minor', 'major', 'critical', 'maintenance']),
+    created_at: z.string(),
+    updated_at: z.string(),
+    resolved_at: z.string().nullable(),
+    shortlink: z.string(),
+    incident_updates: z.array(incidentUpdateSchema),
+    components: z.array(z.object({ name: z.string() }).passthrough()),
+}).passthrough();
+
+// Same fields and enums as parseMaintenances in src/lib/maintenance.ts
+const scheduledMaintenanceSchema = z.object({
+    id: z.string(),
+    name: z.string(),
+    status: z.enum(['scheduled', 'in_progress', 'verifying', 'completed']),
+    impact: z.enum(['none', 'minor', 'major', 'critical', 'maintenance']),
+    created_at: z.string(),
+    updated_at: z.string(),
+    scheduled_for: z.string(),
+    scheduled_until: z.string(),
+    started_at: z.string().nullable().optional(),
+    resolved_at: z.string().nullable(),
+    shortlink: z.string(),
+    incident_updates: z.array(incidentUpdateSchema),
+    components: z.array(z.object({ id: z.string().optional(), name: z.string() }).passthrough()),
+}).passthrough();
+
+const statusSchema = z.object({
+    indicator: z.enum(['none', 'minor', 'major', 'critical', 'maintenance']),
+    description: z.string(),
+});
+
+const incidentsResponse = z.object({ incidents: z.array(incidentSchema) }).passthrough();
+const maintenancesResponse = z.object({ scheduled_maintenances: z.array(scheduledMaintenanceSchema) }).passthrough();
+
+// Endpoints without a schema are returned unvalidated
+export const RESPONSE_SCHEMAS = {
+    'summary.json': z.object({
+        status: statusSchema,
+        components: z.array(componentSchema),
+        incidents: z.array(incidentSchema),
+        scheduled_maintenances: z.array(scheduledMaintenanceSchema),
+    }).passthrough(),
+    'status.json': z.object({ status: statusSchema }).passthrough(),
+    'components.json': z.object({ components: z.array(componentSchema) }).passthrough(),
+    'incidents.json': incidentsResponse,
+    'incidents/unresolved.json': incidentsResponse,
+    'scheduled-maintenances.json': maintenancesResponse,
+    'scheduled-maintenances/upcoming.json': maintenancesResponse,
+    'scheduled-maintenances/active.json': maintenancesResponse,
+};
+
+/**
+ * Validate a response body against its endpoint's schema
+ * The body is returned as received, keeping its key order for the archive diffs
+ * @throws Error listing every problem when the body does not match
+ */
+export function validateResponse(endpoint, body) {
+    const schema = RESPONSE_SCHEMAS[endpoint];
+    if (!schema) {
+        return body;
+    }
+
+    const result = schema.safeParse(body);
+    if (!result.success) {
+        const issues = result.error.issues.slice(0, 5).map(issue => `${issue.path.join('.')}: ${issue.message}`);
+        throw new Error(`Invalid response from ${endpoint}: ${issues.join('; ')}`);
+    }
+    return body;
+}
+
+/**
+ * Keep cached responses for the life of the process
+ * @returns {ResponseCache}
+ */
+export function createMemoryCache() {
+    const entries = new Map();
+    return {
+        get: url => entries.get(url),
+        set: (url, entry) => entries.set(url, entry),
+    };
+}
+
+/**
+ * Keep cached responses in a JSON file, so later runs can make conditional requests
+ * @returns {ResponseCache}
+ */
+export function createFileCache(filePath) {
+    let entries = null;
+
+    const load = () => {
+        if (entries) return entries;
+        try {
+            entries = fs.existsSync(filePath) ? JSON.parse(fs.readFileSync(filePath, 'utf-8')) : {};
+        } catch (error) {
+            // A corrupt cache only costs a full download
+            console.warn(`Response cache ${filePath} unreadable, starting empty`);
+            entries = {};
+        }
+        return entries;
+    };
+
+    return {
+        get: url => load()[url],
+        set: (url, entry) => {
+            load()[url] = entry;
+            fs.mkdirSync(path.dirname(filePath), { recursive: true });
+            fs.writeFileSync(filePath, JSON.stringify(entries));
+        },
+    };
+}
+
+/**
+ * Replay responses recorded in a directory (one file per endpoint, e.g. incidents/unresolved.json)
+ * Endpoints without a recording answer 404
+ * @returns {Transport}
+ */
+export function createFixtureTransport(dir) {
+    return async request => {
+        const file = path.join(dir, request.endpoint);
+        if (!fs.existsSync(file)) {
+            return new Response(null, { status: 404, statusText: 'No recorded response' });
+        }
+        return new Response(fs.readFileSync(file, 'utf-8'), {
+            status: 200,
+            headers: { 'Content-Type': 'application/json' },
+        });
+    };
+}
+
+/**
+ * Pass requests through, recording successful responses in a directory for createFixtureTransport
+ * @returns {Transport}
+ */
+export function createRecordingTransport(dir, transport = DEFAULT_CLIENT_OPTIONS.transport) {
+    return async request => {
+        const response = await transport(request);
+        if (response.status === 200) {
+            const file = path.join(dir, request.endpoint);
+            fs.mkdirSync(path.dirname(file), { recursive: true });
+            fs.writeFileSync(file, await response.clone().text());
+        }
+        return response;
+    };
+}
+
+/**
+ * Get how long a Retry-After header asks to wait, in milliseconds
+ */
+function getRetryAfterMs(response) {
+    const value = response?.headers.get('retry-after');
+    if (!value) return null;
+
+    const seconds = Number(value);
+    const ms = Number.isNaN(seconds) ? new Date(value).getTime() - Date.now() : seconds * 1000;
+    return Number.isNaN(ms) ? null : Math.max(ms, 0);
+}
+
+/**
+ * Create a client for the GitHub Status API
+ * @param {StatusClientOptions} [options]
+ */
+export function createStatusClient(options = {}) {
+    const config = { ...DEFAULT_CLIENT_OPTIONS, ...options };
+
+    /**
+     * Get an endpoint's validated response body
+     * @param {string} endpoint - Path below the API base, e.g. "incidents.json"
+     * @returns {Promise<any>}
+     */
+    async function get(endpoint) {
+        const url = `${config.baseUrl}/${endpoint}`;
+        const cached = config.cache?.get(url);
+        const headers = { Accept: 'application/json' };
+        if (cached?.etag) headers['If-None-Match'] = cached.etag;
+        if (cached?.lastModified) headers['If-Modified-Since'] = cached.lastModified;
+
+        for (let attempt = 0; ; attempt++) {
+            const controller = new AbortController();
+            const timer = setTimeout(() => controller.abort(), config.timeoutMs);
+            let response = null;
+            let body;
+            let failure = null;
+
+            try {
+                response = await config.transport({ url, endpoint, headers, signal: controller.signal });
+                if (response.ok) {
+                    body = await response.json();
+                }
+            } catch (error) {
+                failure = controller.signal.aborted ? new Error(`Timed out after ${config.timeoutMs}ms`) : error;
+            } finally {
+                clearTimeout(timer);
+            }
+
+            if (!failure) {
+                if (response.status === 304 && cached) {
+                    return validateResponse(endpoint, cached.body);
+                }
+                // Invalid bodies throw here without a retry, since the API would return the same again
+                if (response.ok) {
+                    const data = validateResponse(endpoint, body);
+                    config.cache?.set(url, {
+                        etag: response.headers.get('etag'),
+                        lastModified: response.headers.get('last-modified'),
+                        body,
+                    });
+                    return data;
+                }
+                failure = new Error(`HTTP ${response.status}: ${response.statusText}`);
+            }
+
+            const retryable = !response || response.status === 408 || response.status === 429 || response.status >= 500;
+            if (!retryable || attempt >= config.retries) {
+                throw failure;
+            }
+
+            // Full jitter, unless the server says how long to wait
+            const backoff = config.random() * Math.min(config.maxDelayMs, config.baseDelayMs * 2 ** attempt);
+            const delay = Math.min(getRetryAfterMs(response) ?? backoff, config.maxDelayMs);
+            console.warn(`⚠️  ${endpoint}: ${failure.message}; retry ${attempt + 1}/${config.retries} in ${Math.round(delay / 1000)}s`);
+            await config.sleep(delay);
+        }
+    }
+
+    return { get };
+}
@@ -1,5 +1,6 @@
 import { defineCollection, z } from 'astro:content';
 import { file } from 'astro/loaders';
+import { getIncidentComponentIds } from '../lib/component-registry';
 
 // Schema for incident updates
 const incidentUpdateSchema = z.object({
@@ -17,12 +18,24 @@ const incidentUpdateSchema = z.object({
   })).nullable().optional(),
 });
 
+// Component names already reported as unmatched, so each is logged once per build
+const reportedUnmatchedNames = new Set<string>();
+
 // Schema for component status in incidents
+// Each component is resolved to canonical IDs from the component registry at load time
 const componentStatusSchema = z.object({
   code: z.string().optional(),
+  id: z.string().optional(),
   name: z.string(),
   old_status: z.string().optional(),
   new_status: z.string().optional(),
+}).transform(component => {
+  const componentIds = getIncidentComponentIds(component);
+  if (componentIds.length === 0 && !reportedUnmatchedNames.has(component.name)) {
+    reportedUnmatchedNames.add(component.name);
+    console.warn(`[component-registry] Unmatched incident component: "${component.name}"`);
+  }
+  return { ...component, componentIds };
 });
 
 // Main incidents collection schema
@@ -71,10 +84,34 @@ const components = defineCollection({
   schema: componentSchema,
 });
 
-export const collections = { incidents, components };
+// Observation ledger: the time ranges our fetchers actually saw
+const coverageEntrySchema = z.object({
+  id: z.string(),
+  source: z.enum(['bootstrap', 'api', 'scrape']),
+  fetchedAt: z.string(),
+  // Incidents created in [rangeStart, rangeEnd] were all visible to this fetch
+  rangeStart: z.string(),
+  rangeEnd: z.string(),
+  oldestIncidentAt: z.string().nullable(),
+  newestIncidentAt: z.string().nullable(),
+  incidentCount: z.number(),
+  newIncidentCount: z.number(),
+  page: z.number().optional(),
+  // Set when the fetch suggests incidents may have been missed
+  possibleGap: z.boolean(),
+  note: z.string().optional(),
+});
+
+const coverage = defineCollection({
+  loader: file("src/data/coverage-ledger.json"),
+  schema: coverageEntrySchema,
+});
+
+export const collections = { incidents, components, coverage };
 
 // Export types for use in other files
 export type Incident = z.infer<typeof incidents.schema>;
 export type Component = z.infer<typeof componentSchema>;
 export type IncidentUpdate = z.infer<typeof incidentUpdateSchema>;
 export type ComponentStatus = z.infer<typeof componentStatusSchema>;
+export type CoverageEntry = z.infer<typeof coverageEntrySchema>;
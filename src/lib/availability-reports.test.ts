@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseAvailabilityReport,
+  reconcileAvailabilityReport,
+  type AvailabilityReport,
+} from './availability-reports';
+import { calculateMonthlySLA } from './sla-calculator';
+import { createIncident } from './test-fixtures';
+import type { CollectionEntry } from 'astro:content';
+
+/**
+ * Test Suite for Availability Report Reconciliation
+ *
+ * March 2025 has 44,640 minutes; an hour-long full outage leaves a service at 99.8656%.
+ */
+
+const AS_OF = new Date('2025-05-01T00:00:00Z');
+
+// Helper to create a March 2025 report
+function createReport(incidents: AvailabilityReport['incidents']): AvailabilityReport {
+  return {
+    month: '2025-03',
+    source: 'https://github.blog/news-insights/company-news/github-availability-report-march-2025/',
+    importedAt: '2025-04-20T00:00:00Z',
+    incidents,
+  };
+}
+
+function reconcile(report: AvailabilityReport, incidents: CollectionEntry<'incidents'>[]) {
+  const slaResults = calculateMonthlySLA(incidents, 2025, 3, ['Actions'], { asOf: AS_OF });
+  return reconcileAvailabilityReport(report, incidents, slaResults, AS_OF);
+}
+
+describe('Availability Report Tests', () => {
+  describe('GIVEN an imported report file', () => {
+    it('WHEN the data is valid THEN it is returned as is', () => {
+      const report = createReport([{ startedAt: '2025-03-10T10:00:00Z', durationMinutes: 60, summary: 'Actions outage' }]);
+
+      expect(parseAvailabilityReport(report)).toEqual(report);
+    });
+
+    it('WHEN fields are malformed THEN every problem is listed', () => {
+      const report = { ...createReport([{ startedAt: 'soon', durationMinutes: -5, summary: '' }]), month: '2025-3' };
+
+      expect(() => parseAvailabilityReport(report, '2025-03.json')).toThrow(
+        /Invalid 2025-03\.json: month: .*incidents\.0\.startedAt: Invalid timestamp; incidents\.0\.durationMinutes/
+      );
+    });
+  });
+
+  describe('GIVEN a report and our archive for the same month', () => {
+    it('WHEN both list the same outage THEN it matches and both downtimes agree', () => {
+      // Given: GitHub reports 65 minutes for an outage we recorded as an hour
+      const incidents = [createIncident('a', '2025-03-10T10:00:00Z', 60, ['Actions'])];
+      const report = createReport([{ startedAt: '2025-03-10T10:05:00Z', durationMinutes: 65, summary: 'Actions outage' }]);
+
+      // When
+      const result = reconcile(report, incidents);
+
+      // Then: within tolerance, and the reported hour is attributed to Actions via our incident
+      expect(result.rows).toHaveLength(1);
+      expect(result.rows[0].status).toBe('matched');
+      expect(result.rows[0].archived?.id).toBe('a');
+      expect(result.rows[0].durationDifferenceMinutes).toBe(-5);
+      expect(result.components[0]).toMatchObject({
+        componentName: 'Actions',
+        downtimeMinutes: 60,
+        reportedDowntimeMinutes: 65,
+        reportedIncidentCount: 1,
+      });
+    });
+
+    it('WHEN durations differ beyond the tolerance THEN the row is flagged', () => {
+      const incidents = [createIncident('a', '2025-03-10T10:00:00Z', 60, ['Actions'], { impact: 'major' })];
+      const report = createReport([{ startedAt: '2025-03-10T10:00:00Z', durationMinutes: 180, summary: 'Actions outage' }]);
+
+      const [row] = reconcile(report, incidents).rows;
+
+      expect(row.status).toBe('duration-mismatch');
+      expect(row.durationDifferenceMinutes).toBe(-120);
+    });
+
+    it('WHEN each side lists an incident the other lacks THEN both are flagged in time order', () => {
+      // Given: a reported outage we have nothing for, and a major incident of ours the report omits;
+      // our minor incident is not expected in the report
+      const incidents = [
+        createIncident('ours', '2025-03-05T08:00:00Z', 30, ['Actions'], { impact: 'major' }),
+        createIncident('minor', '2025-03-06T08:00:00Z', 30, ['Actions'], { impact: 'minor' }),
+      ];
+      const report = createReport([
+        { startedAt: '2025-03-20T12:00:00Z', durationMinutes: 45, summary: 'Git operations degraded', components: ['Actions'] },
+      ]);
+
+      // When
+      const result = reconcile(report, incidents);
+
+      // Then
+      expect(result.rows.map(row => row.status)).toEqual(['not-reported', 'missing-locally']);
+      expect(result.counts).toEqual({ 'matched': 0, 'duration-mismatch': 0, 'missing-locally': 1, 'not-reported': 1 });
+      expect(result.components[0].reportedDowntimeMinutes).toBe(45);
+    });
+
+    it('WHEN our only overlapping incident started long before THEN the reported one is missing locally', () => {
+      const incidents = [createIncident('long', '2025-02-01T00:00:00Z', 60 * 24 * 30, ['Actions'], { impact: 'minor' })];
+      const report = createReport([{ startedAt: '2025-03-20T12:00:00Z', durationMinutes: 45, summary: 'Actions outage' }]);
+
+      const [row] = reconcile(report, incidents).rows;
+
+      expect(row.status).toBe('missing-locally');
+    });
+
+    it('WHEN a report entry names an incident id THEN it matches that incident, not the closest', () => {
+      const incidents = [
+        createIncident('near', '2025-03-10T10:00:00Z', 60, ['Actions'], { impact: 'major' }),
+        createIncident('named', '2025-03-10T10:30:00Z', 60, ['Actions'], { impact: 'major' }),
+      ];
+      const report = createReport([
+        { startedAt: '2025-03-10T10:00:00Z', durationMinutes: 60, summary: 'Actions outage', incidentId: 'named' },
+      ]);
+
+      const result = reconcile(report, incidents);
+
+      expect(result.rows.find(row => row.reported)?.archived?.id).toBe('named');
+      expect(result.rows.find(row => !row.reported)?.archived?.id).toBe('near');
+    });
+  });
+});
@@ -0,0 +1,273 @@
+/**
+ * Availability Report Reconciliation
+ * GitHub's monthly availability reports (imported into src/data/availability-reports/ by
+ * scripts/import-availability-report.js), checked against our archive and SLA results
+ *
+ * Each incident a report lists is matched to an archived incident: the one named by its
+ * `incidentId` when set, otherwise the closest-starting incident that started during the reported
+ * window, widened by `matchToleranceMinutes`. Archived incidents of the impacts GitHub reports on that no report
+ * incident matched are flagged as not reported. Matched incidents whose durations differ by more
+ * than the tolerance are flagged as disagreements.
+ */
+
+import { z } from 'astro/zod';
+import type { CollectionEntry } from 'astro:content';
+import { getDurationMinutes, getMonthEnd, getMonthStart, type Month } from './date-utils';
+import {
+  calculateMonthlySLA,
+  componentMatchesName,
+  evaluateUptime,
+  getIncidentEndTime,
+  sumWeightedDowntimeMinutes,
+  type SLACalculationOptions,
+  type SLAResult,
+} from './sla-calculator';
+import { getSLADefinition, getServiceNames, type SLADefinition } from './sla-definitions';
+
+// Type for incident entries from content collections
+type IncidentEntry = CollectionEntry<'incidents'>;
+
+const MINUTE_MS = 60 * 1000;
+
+const availabilityReportSchema = z.object({
+  month: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Expected a month like "2025-01"'),
+  source: z.string().url(),
+  importedAt: z.string(),
+  incidents: z.array(z.object({
+    startedAt: z.string().refine(value => !isNaN(new Date(value).getTime()), 'Invalid timestamp'),
+    durationMinutes: z.number().nonnegative(),
+    summary: z.string(),
+    // Added by hand when the report's wording leaves the match or the services ambiguous
+    incidentId: z.string().optional(),
+    components: z.array(z.string()).optional(),
+  })),
+});
+
+export type AvailabilityReport = z.infer<typeof availabilityReportSchema>;
+
+export type ReportedIncident = AvailabilityReport['incidents'][number];
+
+export interface ReconciliationOptions {
+  // How far outside the reported window our incident may start and still match
+  matchToleranceMinutes: number;
+  // Duration difference accepted as agreement: the larger of these minutes and share of the report's
+  durationToleranceMinutes: number;
+  durationToleranceRatio: number;
+  // Impacts of archived incidents that GitHub's reports are expected to list
+  reportedImpacts: string[];
+}
+
+export const DEFAULT_RECONCILIATION_OPTIONS: ReconciliationOptions = {
+  matchToleranceMinutes: 30,
+  durationToleranceMinutes: 10,
+  durationToleranceRatio: 0.2,
+  reportedImpacts: ['major', 'critical'],
+};
+
+export type ReconciliationStatus = 'matched' | 'duration-mismatch' | 'missing-locally' | 'not-reported';
+
+/**
+ * An archived incident as compared with a report
+ */
+export interface ArchivedIncidentSummary {
+  id: string;
+  name: string;
+  impact: string;
+  shortlink: string;
+  start: Date;
+  end: Date;
+  durationMinutes: number;
+  componentNames: string[];
+}
+
+export interface ReconciliationRow {
+  status: ReconciliationStatus;
+  reported?: ReportedIncident;
+  archived?: ArchivedIncidentSummary;
+  // Ours minus the report's, when both exist
+  durationDifferenceMinutes?: number;
+}
+
+/**
+ * Our downtime for one SLA service against the downtime the report's incidents add up to
+ */
+export interface ComponentReconciliation {
+  componentName: string;
+  uptimePercentage: number;
+  downtimeMinutes: number; // Weighted, from calculateComponentSLA
+  // Reported incidents attributed to this service, counted as full outages with overlaps merged
+  reportedDowntimeMinutes: number;
+  reportedUptimePercentage: number;
+  reportedIncidentCount: number;
+}
+
+export interface MonthlyReconciliation {
+  month: string;
+  source: string;
+  startDate: Date;
+  endDate: Date;
+  rows: ReconciliationRow[]; // By start time
+  components: ComponentReconciliation[];
+  counts: Record<ReconciliationStatus, number>;
+}
+
+/**
+ * Validate one imported availability report
+ * @throws Error listing every problem when the data does not match the schema
+ */
+export function parseAvailabilityReport(data: unknown, fileName: string = 'availability report'): AvailabilityReport {
+  const result = availabilityReportSchema.safeParse(data);
+
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`);
+    throw new Error(`Invalid ${fileName}: ${issues.join('; ')}`);
+  }
+  return result.data;
+}
+
+const reportFiles = import.meta.glob<unknown>('../data/availability-reports/*.json', { eager: true, import: 'default' });
+
+// Imported reports, oldest month first
+export const AVAILABILITY_REPORTS: AvailabilityReport[] = Object.entries(reportFiles)
+  .map(([file, data]) => parseAvailabilityReport(data, file.split('/').pop()))
+  .sort((a, b) => a.month.localeCompare(b.month));
+
+/**
+ * Get the start and end of a report's month
+ */
+export function getReportPeriod(report: AvailabilityReport): { startDate: Date; endDate: Date } {
+  const [year, month] = report.month.split('-').map(Number);
+  return { startDate: getMonthStart(year, month as Month), endDate: getMonthEnd(year, month as Month) };
+}
+
+function summarizeIncident(incident: IncidentEntry, asOf: Date): ArchivedIncidentSummary {
+  const start = new Date(incident.data.started_at || incident.data.created_at);
+  const end = getIncidentEndTime(incident, asOf);
+  return {
+    id: incident.data.id,
+    name: incident.data.name,
+    impact: incident.data.impact,
+    shortlink: incident.data.shortlink,
+    start,
+    end,
+    durationMinutes: getDurationMinutes(start, end),
+    componentNames: (incident.data.components ?? []).map(c => c.name),
+  };
+}
+
+/**
+ * Reconcile one report against our archive and our SLA results for its month
+ * @param incidents - Archived incidents as of `asOf`
+ * @param slaResults - calculateComponentSLA results for the report's month
+ */
+export function reconcileAvailabilityReport(
+  report: AvailabilityReport,
+  incidents: IncidentEntry[],
+  slaResults: SLAResult[],
+  asOf: Date,
+  definition: SLADefinition = getSLADefinition(),
+  options: ReconciliationOptions = DEFAULT_RECONCILIATION_OPTIONS
+): MonthlyReconciliation {
+  const { startDate, endDate } = getReportPeriod(report);
+  const tolerance = options.matchToleranceMinutes * MINUTE_MS;
+
+  // Starting within the reported window, so long-running incidents opened earlier never match
+  const candidates = incidents
+    .map(incident => summarizeIncident(incident, asOf))
+    .filter(summary => !isNaN(summary.start.getTime()));
+  const byId = new Map(candidates.map(summary => [summary.id, summary]));
+  const matchedIds = new Set<string>();
+
+  const reported = [...report.incidents].sort((a, b) => new Date(a.startedAt).getTime() - new Date(b.startedAt).getTime());
+  const rows: ReconciliationRow[] = reported.map(entry => {
+    const start = new Date(entry.startedAt).getTime();
+    const end = start + entry.durationMinutes * MINUTE_MS;
+
+    let archived = entry.incidentId ? byId.get(entry.incidentId) : undefined;
+    if (!archived && !entry.incidentId) {
+      archived = candidates
+        .filter(c => !matchedIds.has(c.id) && c.start.getTime() >= start - tolerance && c.start.getTime() <= end + tolerance)
+        .sort((a, b) => Math.abs(a.start.getTime() - start) - Math.abs(b.start.getTime() - start))[0];
+    }
+    if (!archived) return { status: 'missing-locally', reported: entry };
+
+    matchedIds.add(archived.id);
+    const durationDifferenceMinutes = archived.durationMinutes - entry.durationMinutes;
+    const allowed = Math.max(options.durationToleranceMinutes, entry.durationMinutes * options.durationToleranceRatio);
+
+    return {
+      status: Math.abs(durationDifferenceMinutes) > allowed ? 'duration-mismatch' : 'matched',
+      reported: entry,
+      archived,
+      durationDifferenceMinutes,
+    };
+  });
+
+  // Incidents of reportable impact that started in the month but no report entry matched
+  for (const summary of candidates) {
+    if (matchedIds.has(summary.id) || !options.reportedImpacts.includes(summary.impact)) continue;
+    if (summary.start < startDate || summary.start > endDate) continue;
+    rows.push({ status: 'not-reported', archived: summary });
+  }
+
+  const rowStart = (row: ReconciliationRow) =>
+    row.reported ? new Date(row.reported.startedAt).getTime() : row.archived!.start.getTime();
+  rows.sort((a, b) => rowStart(a) - rowStart(b));
+
+  const components = slaResults.map((result): ComponentReconciliation => {
+    // Services come from the report when listed, otherwise from the matched incident
+    const attributed = rows.filter(row => {
+      if (!row.reported) return false;
+      const names = row.reported.components ?? row.archived?.componentNames ?? [];
+      return names.some(name => componentMatchesName(name, result.componentName));
+    });
+    const intervals = attributed.map(row => {
+      const start = new Date(row.reported!.startedAt).getTime();
+      return { start, end: start + row.reported!.durationMinutes * MINUTE_MS, weight: 1 };
+    });
+    const reportedMinutes = sumWeightedDowntimeMinutes(intervals, startDate, endDate);
+
+    return {
+      componentName: result.componentName,
+      uptimePercentage: result.uptimePercentage,
+      downtimeMinutes: result.totalDowntimeMinutes,
+      reportedDowntimeMinutes: Math.round(reportedMinutes),
+      reportedUptimePercentage: evaluateUptime(reportedMinutes, startDate, endDate, definition).uptimePercentage,
+      reportedIncidentCount: attributed.length,
+    };
+  });
+
+  const counts: Record<ReconciliationStatus, number> = {
+    'matched': 0,
+    'duration-mismatch': 0,
+    'missing-locally': 0,
+    'not-reported': 0,
+  };
+  rows.forEach(row => counts[row.status]++);
+
+  return { month: report.month, source: report.source, startDate, endDate, rows, components, counts };
+}
+
+/**
+ * Reconcile each report against the SLA services of the version in force when its month started
+ * @param incidents - Archived incidents as of `options.asOf`
+ */
+export function reconcileAvailabilityReports(
+  reports: AvailabilityReport[],
+  incidents: IncidentEntry[],
+  options: SLACalculationOptions & { asOf: Date }
+): MonthlyReconciliation[] {
+  return reports.map(report => {
+    const { startDate } = getReportPeriod(report);
+    const definition = getSLADefinition(options.slaDefinitionId, startDate);
+    const slaResults = calculateMonthlySLA(
+      incidents,
+      startDate.getFullYear(),
+      (startDate.getMonth() + 1) as Month,
+      getServiceNames(definition),
+      { ...options, definition }
+    );
+
+    return reconcileAvailabilityReport(report, incidents, slaResults, options.asOf, definition);
+  });
+}
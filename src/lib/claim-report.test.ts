@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildClaimReport,
+  getClaimReports,
+  getClaimSlug,
+  renderClaimHtml,
+  renderClaimMarkdown,
+} from './claim-report';
+import { calculateComponentSLA } from './sla-calculator';
+import { getQuarterInfo, getQuarterStart, getQuarterEnd } from './date-utils';
+import { getSLADefinition } from './sla-definitions';
+import { resolveComponentIds } from './component-registry';
+import type { Maintenance } from './maintenance';
+import { createIncident } from './test-fixtures';
+
+/**
+ * Test Suite for SLA Claim Evidence Reports
+ */
+
+// A 3-hour critical outage: 180 minutes of downtime in Q1 2025 (uptime ~99.86%)
+const outage = createIncident('outage', '2025-02-10T10:00:00Z', 180, ['Actions'], {
+  // Newest first, as the scraper numbers them
+  incident_updates: [
+    { id: 'outage-2', status: 'resolved', body: 'This incident has been resolved.', created_at: '2025-02-10T13:00:00Z' },
+    { id: 'outage-1', status: 'investigating', body: 'Actions jobs are failing <for some users>.', created_at: '2025-02-10T10:00:00Z' },
+  ],
+});
+// Same component, no downtime weight
+const informational = createIncident('info', '2025-02-20T10:00:00Z', 60, ['Actions'], { impact: 'none' });
+// Different component
+const unrelated = createIncident('pages', '2025-03-01T10:00:00Z', 60, ['Pages']);
+
+const incidents = [outage, informational, unrelated];
+const asOf = new Date('2025-04-10T00:00:00Z');
+
+function buildActionsReport() {
+  const result = calculateComponentSLA(
+    incidents,
+    'Actions',
+    getQuarterStart(2025, 1),
+    getQuarterEnd(2025, 1),
+    { asOf }
+  );
+  return buildClaimReport(incidents, result, '2025-Q1', asOf);
+}
+
+describe('Claim Slug Tests', () => {
+  it('WHEN the component name has spaces THEN builds a URL-safe slug', () => {
+    expect(getClaimSlug('2025-Q1', 'Git Operations')).toBe('2025-Q1-git-operations');
+  });
+});
+
+describe('Claim Report Tests', () => {
+  describe('GIVEN a violating component', () => {
+    it('WHEN building the report THEN lists only incidents that contributed downtime', () => {
+      const report = buildActionsReport();
+
+      expect(report.serviceCredit).toBe(10);
+      expect(report.incidents.map(i => i.id)).toEqual(['outage']);
+      expect(report.incidents[0].weightedDowntimeMinutes).toBe(180);
+      expect(report.incidents[0].shortlink).toBe('https://stspg.io/outage');
+    });
+
+    it('WHEN building the report THEN status updates are in chronological order', () => {
+      const report = buildActionsReport();
+
+      expect(report.incidents[0].updates.map(u => u.status)).toEqual(['investigating', 'resolved']);
+    });
+  });
+
+  describe('GIVEN an incident partly inside excluded maintenance', () => {
+    it('WHEN building the report THEN its maintenance minutes are not counted', () => {
+      // Given: Actions maintenance 10:00-11:00, announced a week ahead, during the 3-hour outage
+      const maintenance: Maintenance = {
+        id: 'm1',
+        name: 'Runner upgrade',
+        status: 'completed',
+        impact: 'maintenance',
+        created_at: '2025-02-03T09:00:00Z',
+        updated_at: '2025-02-10T11:00:00Z',
+        scheduled_for: '2025-02-10T10:00:00Z',
+        scheduled_until: '2025-02-10T11:00:00Z',
+        started_at: '2025-02-10T10:00:00Z',
+        resolved_at: '2025-02-10T11:00:00Z',
+        shortlink: 'https://stspg.io/m1',
+        components: [{ name: 'Actions', componentIds: resolveComponentIds('Actions') }],
+      };
+      const result = calculateComponentSLA(
+        incidents,
+        'Actions',
+        getQuarterStart(2025, 1),
+        getQuarterEnd(2025, 1),
+        { asOf, maintenances: [maintenance] }
+      );
+
+      // When: Building the report with the same maintenance archive
+      const report = buildClaimReport(
+        incidents, result, '2025-Q1', asOf, getSLADefinition(undefined, getQuarterStart(2025, 1)), [maintenance]
+      );
+
+      // Then: The evidence agrees with the uptime: 120 of the 180 minutes count
+      expect(result.totalDowntimeMinutes).toBe(120);
+      expect(report.incidents[0].weightedDowntimeMinutes).toBe(120);
+    });
+  });
+
+  describe('GIVEN several quarters', () => {
+    it('WHEN collecting reports THEN only violations with enough data produce one', () => {
+      const reports = getClaimReports(
+        incidents,
+        [getQuarterInfo(2025, 1), getQuarterInfo(2025, 2)],
+        { asOf }
+      );
+
+      // Then: Only Actions violated in Q1 (Pages' 60 critical minutes still pass)
+      expect(reports.map(r => r.slug)).toEqual(['2025-Q1-actions']);
+    });
+  });
+});
+
+describe('Claim Rendering Tests', () => {
+  it('WHEN rendering Markdown THEN includes the evidence for each incident', () => {
+    const markdown = renderClaimMarkdown(buildActionsReport());
+
+    expect(markdown).toContain('# SLA Claim Evidence: Actions (2025-Q1)');
+    expect(markdown).toContain('https://stspg.io/outage');
+    expect(markdown).toContain('Actions jobs are failing');
+    expect(markdown).toContain('3h');
+  });
+
+  it('WHEN rendering HTML THEN escapes incident text', () => {
+    const html = renderClaimHtml(buildActionsReport());
+
+    expect(html).toContain('<!DOCTYPE html>');
+    expect(html).toContain('&lt;for some users&gt;');
+    expect(html).not.toContain('<for some users>');
+  });
+});
@@ -0,0 +1,328 @@
+/**
+ * SLA Claim Evidence Reports
+ * Gathers the evidence for each SLA violation into a document we can file with GitHub support
+ *
+ * A report lists the period, component, computed uptime and every incident that
+ * contributed downtime, with its shortlink, timing, weighted downtime and status updates.
+ * Downtime inside scheduled maintenance the SLA excludes is not counted, as in the uptime.
+ */
+
+import type { CollectionEntry } from 'astro:content';
+import { formatDateTime, formatDuration, type QuarterInfo } from './date-utils';
+import {
+  calculateQuarterData,
+  getComponentDowntimeIntervals,
+  getIncidentEndTime,
+  incidentComponentMatches,
+  sumWeightedDowntimeMinutes,
+  withFixedAsOf,
+  type SLACalculationOptions,
+  type SLAResult,
+} from './sla-calculator';
+import { ensureSnapshot } from './incident-snapshot';
+import { getImpactProfile } from './impact-profiles';
+import { getSLADefinition, resolveSLADefinition, type SLADefinition } from './sla-definitions';
+import {
+  getExcludedSpans,
+  getMaintenanceWindows,
+  removeExcludedSpans,
+  type Maintenance,
+} from './maintenance';
+
+// Type for incident entries from content collections
+type IncidentEntry = CollectionEntry<'incidents'>;
+
+export interface ClaimEvidenceUpdate {
+  status: string;
+  body: string;
+  postedAt: Date;
+}
+
+export interface ClaimIncidentEvidence {
+  id: string;
+  name: string;
+  shortlink: string;
+  impact: string;
+  start: Date;
+  end: Date;
+  resolved: boolean;
+  // Weighted downtime this incident alone adds within the period (overlaps are counted once in the total)
+  weightedDowntimeMinutes: number;
+  updates: ClaimEvidenceUpdate[];
+}
+
+export interface ClaimReport {
+  slug: string;
+  componentName: string;
+  periodLabel: string;
+  period: { start: Date; end: Date };
+  uptimePercentage: number;
+  totalDowntimeMinutes: number;
+  targetPercentage: number;
+  slaVersion: string;
+  serviceCredit: number;
+  methodology: string;
+  generatedAt: Date;
+  incidents: ClaimIncidentEvidence[];
+}
+
+/**
+ * Get the URL-safe identifier of a claim (e.g. "2025-Q1-git-operations")
+ */
+export function getClaimSlug(periodLabel: string, componentName: string): string {
+  const component = componentName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${periodLabel}-${component}`;
+}
+
+/**
+ * Build the evidence report for one violated SLA result
+ *
+ * @param incidents - Incidents as used for the calculation (already snapshotted when evaluating "as of")
+ * @param result - A violating result from calculateComponentSLA
+ * @param periodLabel - Label of the evaluated period (e.g. "2025-Q1")
+ * @param asOf - Evaluation time, used for incidents still open
+ * @param definition - SLA version the result was evaluated under (defaults to the one in force at the period start)
+ * @param maintenances - Scheduled maintenance archive the result was evaluated with
+ */
+export function buildClaimReport(
+  incidents: IncidentEntry[],
+  result: SLAResult,
+  periodLabel: string,
+  asOf: Date = new Date(),
+  definition: SLADefinition = getSLADefinition(undefined, new Date(result.period.start)),
+  maintenances: Maintenance[] = []
+): ClaimReport {
+  const periodStart = new Date(result.period.start);
+  const periodEnd = new Date(result.period.end);
+  const excludedSpans = getExcludedSpans(
+    getMaintenanceWindows(maintenances, asOf),
+    result.componentName,
+    periodStart,
+    periodEnd,
+    definition,
+    asOf
+  );
+
+  const evidence = incidents
+    .filter(incident =>
+      incident.data.components?.some(c => incidentComponentMatches(c, result.componentName))
+    )
+    .map((incident): ClaimIncidentEvidence => {
+      const intervals = getComponentDowntimeIntervals(
+        incident,
+        result.componentName,
+        result.downtimeMode,
+        result.impactProfile,
+        asOf
+      );
+
+      return {
+        id: incident.data.id,
+        name: incident.data.name,
+        shortlink: incident.data.shortlink,
+        impact: incident.data.impact,
+        start: new Date(incident.data.started_at || incident.data.created_at),
+        end: getIncidentEndTime(incident, asOf),
+        resolved: incident.data.status === 'resolved',
+        weightedDowntimeMinutes: sumWeightedDowntimeMinutes(
+          removeExcludedSpans(intervals, excludedSpans),
+          periodStart,
+          periodEnd
+        ),
+        updates: [...incident.data.incident_updates]
+          .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+          .map(update => ({
+            status: update.status,
+            body: update.body,
+            postedAt: new Date(update.created_at),
+          })),
+      };
+    })
+    .filter(entry => entry.weightedDowntimeMinutes > 0)
+    .map(entry => ({ ...entry, weightedDowntimeMinutes: Math.round(entry.weightedDowntimeMinutes) }))
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  const mode = result.downtimeMode === 'component-status' ? 'component status transitions' : 'incident impact';
+  const profile = getImpactProfile(result.impactProfile);
+
+  return {
+    slug: getClaimSlug(periodLabel, result.componentName),
+    componentName: result.componentName,
+    periodLabel,
+    period: { start: periodStart, end: periodEnd },
+    uptimePercentage: result.uptimePercentage,
+    totalDowntimeMinutes: result.totalDowntimeMinutes,
+    targetPercentage: definition.target,
+    slaVersion: result.slaVersion,
+    serviceCredit: result.serviceCredit,
+    methodology: `Downtime weighted by ${mode} using the ${profile.label} profile (${profile.description}).`,
+    generatedAt: asOf,
+    incidents: evidence,
+  };
+}
+
+/**
+ * SLA results of one quarter, as calculated by calculateQuarterData
+ */
+export interface QuarterSLAResults {
+  label: string;
+  startDate: Date;
+  slaResults: SLAResult[];
+}
+
+/**
+ * Build claim reports for every violation in already calculated quarters
+ * Results without enough data are skipped: they cannot support a claim
+ *
+ * @param incidents - Incidents as used for the calculation (already snapshotted when evaluating "as of")
+ */
+export function buildClaimReports(
+  incidents: IncidentEntry[],
+  quarters: QuarterSLAResults[],
+  options: SLACalculationOptions = {}
+): ClaimReport[] {
+  const asOf = options.asOf ?? new Date();
+
+  return quarters.flatMap(quarter =>
+    quarter.slaResults
+      .filter(result => result.slaViolation && !result.hasInsufficientData)
+      .map(result =>
+        buildClaimReport(
+          incidents,
+          result,
+          quarter.label,
+          asOf,
+          resolveSLADefinition(options, quarter.startDate),
+          options.maintenances
+        )
+      )
+  );
+}
+
+/**
+ * Build claim reports for every violation in the given quarters
+ * Results without enough data are skipped: they cannot support a claim
+ */
+export function getClaimReports(
+  allIncidents: IncidentEntry[],
+  quarters: QuarterInfo[],
+  options: SLACalculationOptions = {}
+): ClaimReport[] {
+  const nestedOptions = withFixedAsOf(allIncidents, options);
+  const incidents = ensureSnapshot(allIncidents, nestedOptions.asOf!);
+
+  return buildClaimReports(
+    incidents,
+    quarters.map(quarter => ({
+      label: quarter.label,
+      startDate: quarter.startDate,
+      slaResults: calculateQuarterData(incidents, quarter.year, quarter.quarter, nestedOptions).slaResults,
+    })),
+    options
+  );
+}
+
+/**
+ * Render a claim report as Markdown
+ */
+export function renderClaimMarkdown(report: ClaimReport): string {
+  const lines = [
+    `# SLA Claim Evidence: ${report.componentName} (${report.periodLabel})`,
+    '',
+    `- **Service:** ${report.componentName}`,
+    `- **Period:** ${formatDateTime(report.period.start)} – ${formatDateTime(report.period.end)}`,
+    `- **SLA version:** ${report.slaVersion}`,
+    `- **Computed uptime:** ${report.uptimePercentage.toFixed(4)}% (commitment: ${report.targetPercentage}%)`,
+    `- **Weighted downtime:** ${formatDuration(report.totalDowntimeMinutes)}`,
+    `- **Service credit requested:** ${report.serviceCredit}%`,
+    `- **Contributing incidents:** ${report.incidents.length}`,
+    `- **Generated:** ${formatDateTime(report.generatedAt)}`,
+    '',
+    `_${report.methodology} Overlapping incidents are counted once in the total._`,
+    '',
+    '## Incidents',
+  ];
+
+  for (const incident of report.incidents) {
+    lines.push(
+      '',
+      `### ${incident.name}`,
+      '',
+      `- **Link:** ${incident.shortlink}`,
+      `- **Impact:** ${incident.impact}`,
+      `- **Started:** ${formatDateTime(incident.start)}`,
+      `- **Ended:** ${incident.resolved ? formatDateTime(incident.end) : `ongoing as of ${formatDateTime(incident.end)}`}`,
+      `- **Weighted downtime in period:** ${formatDuration(incident.weightedDowntimeMinutes)}`,
+      '',
+      '**Status updates:**',
+    );
+
+    for (const update of incident.updates) {
+      const body = update.body.trim().replace(/\n+/g, ' ');
+      lines.push('', `> **${update.status}** — ${formatDateTime(update.postedAt)}`, '>', `> ${body}`);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Escape text for HTML output
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Render a claim report as a standalone HTML document
+ */
+export function renderClaimHtml(report: ClaimReport): string {
+  const title = `SLA Claim Evidence: ${report.componentName} (${report.periodLabel})`;
+
+  const incidents = report.incidents.map(incident => `
+  <section>
+    <h3>${escapeHtml(incident.name)}</h3>
+    <ul>
+      <li><strong>Link:</strong> <a href="${escapeHtml(incident.shortlink)}">${escapeHtml(incident.shortlink)}</a></li>
+      <li><strong>Impact:</strong> ${escapeHtml(incident.impact)}</li>
+      <li><strong>Started:</strong> ${formatDateTime(incident.start)}</li>
+      <li><strong>Ended:</strong> ${incident.resolved ? formatDateTime(incident.end) : `ongoing as of ${formatDateTime(incident.end)}`}</li>
+      <li><strong>Weighted downtime in period:</strong> ${formatDuration(incident.weightedDowntimeMinutes)}</li>
+    </ul>
+    <h4>Status updates</h4>
+    ${incident.updates.map(update => `<blockquote><strong>${escapeHtml(update.status)}</strong> — ${formatDateTime(update.postedAt)}<br>${escapeHtml(update.body.trim())}</blockquote>`).join('\n    ')}
+  </section>`).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { font-family: sans-serif; max-width: 50rem; margin: 2rem auto; line-height: 1.5; }
+    blockquote { border-left: 3px solid #ccc; margin: 0.5rem 0; padding-left: 1rem; }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(title)}</h1>
+  <ul>
+    <li><strong>Service:</strong> ${escapeHtml(report.componentName)}</li>
+    <li><strong>Period:</strong> ${formatDateTime(report.period.start)} – ${formatDateTime(report.period.end)}</li>
+    <li><strong>SLA version:</strong> ${escapeHtml(report.slaVersion)}</li>
+    <li><strong>Computed uptime:</strong> ${report.uptimePercentage.toFixed(4)}% (commitment: ${report.targetPercentage}%)</li>
+    <li><strong>Weighted downtime:</strong> ${formatDuration(report.totalDowntimeMinutes)}</li>
+    <li><strong>Service credit requested:</strong> ${report.serviceCredit}%</li>
+    <li><strong>Contributing incidents:</strong> ${report.incidents.length}</li>
+    <li><strong>Generated:</strong> ${formatDateTime(report.generatedAt)}</li>
+  </ul>
+  <p><em>${escapeHtml(report.methodology)} Overlapping incidents are counted once in the total.</em></p>
+  <h2>Incidents</h2>
+${incidents}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createComponentRegistry,
+  findUnmatchedComponentNames,
+  getIncidentComponentIds,
+  resolveComponentIds,
+} from './component-registry';
+import { componentMatchesName, incidentComponentMatches } from './sla-calculator';
+
+/**
+ * Test Suite for the Component Registry
+ *
+ * Incident component names are free text (scraped names, combined names, renamed
+ * components); the registry maps them to the stable IDs of components.json.
+ */
+
+const GIT_OPERATIONS = '8l4ygp009s5s';
+const ISSUES = 'kr09ddfgbfsf';
+const PULL_REQUESTS = 'hhtssxt0f5v2';
+const ACTIONS = 'br0l2tvcx85d';
+const CODESPACES = 'h2ftsgbw7kmk';
+const COPILOT = 'pjmpxvq2cmr2';
+const COPILOT_MODEL_PROVIDERS = 'cnnb39dkkk82';
+
+describe('Component Registry Tests', () => {
+  describe('GIVEN the bundled registry', () => {
+    it('WHEN a name is canonical THEN it resolves to its ID', () => {
+      expect(resolveComponentIds('Git Operations')).toEqual([GIT_OPERATIONS]);
+      expect(resolveComponentIds('  and Actions ')).toEqual([ACTIONS]);
+      expect(resolveComponentIds('git operations')).toEqual([GIT_OPERATIONS]);
+    });
+
+    it('WHEN a name combines components THEN it resolves to each of them', () => {
+      expect(resolveComponentIds('Git Operations and Codespaces')).toEqual([GIT_OPERATIONS, CODESPACES]);
+      expect(resolveComponentIds('Issues, PRs, Projects')).toEqual([ISSUES, PULL_REQUESTS]);
+    });
+
+    it('WHEN a component name contains another THEN only the exact component matches', () => {
+      expect(resolveComponentIds('Copilot AI Model Providers')).toEqual([COPILOT_MODEL_PROVIDERS]);
+      expect(componentMatchesName('Copilot AI Model Providers', 'Copilot')).toBe(false);
+      expect(componentMatchesName('Actions and Copilot', 'Copilot')).toBe(true);
+    });
+
+    it('WHEN a component was renamed THEN its historical name resolves', () => {
+      expect(resolveComponentIds('GitHub Actions')).toEqual([ACTIONS]);
+      expect(componentMatchesName('GitHub Actions', 'Actions')).toBe(true);
+    });
+
+    it('WHEN any part of a name is unknown THEN nothing resolves', () => {
+      expect(resolveComponentIds('Git Operations and Something Else')).toEqual([]);
+    });
+
+    it('WHEN a name has regex characters THEN matching does not break', () => {
+      expect(resolveComponentIds('Issues (beta)')).toEqual([]);
+      expect(componentMatchesName('Issues (beta)', 'Issues (beta)')).toBe(true);
+      expect(componentMatchesName('Issues', 'Issues (beta)')).toBe(false);
+    });
+
+    it('WHEN an incident component carries a known ID THEN the ID wins', () => {
+      expect(getIncidentComponentIds({ id: COPILOT, name: 'Renamed Copilot' })).toEqual([COPILOT]);
+      expect(getIncidentComponentIds({ id: 'unknown', name: 'Pull Requests' })).toEqual([PULL_REQUESTS]);
+    });
+
+    it('WHEN an incident component was resolved at load time THEN its IDs decide the match, not its name', () => {
+      const renamed = { name: 'Renamed Copilot', componentIds: [COPILOT] };
+
+      expect(incidentComponentMatches(renamed, 'Copilot')).toBe(true);
+      expect(incidentComponentMatches({ name: 'Copilot', componentIds: [COPILOT_MODEL_PROVIDERS] }, 'Copilot')).toBe(false);
+      expect(incidentComponentMatches({ name: 'Issues (beta)', componentIds: [] }, 'Issues (beta)')).toBe(true);
+    });
+  });
+
+  describe('GIVEN a custom registry', () => {
+    const components = [
+      { id: 'a', name: 'Alpha' },
+      { id: 'b', name: 'Beta' },
+    ];
+
+    it('WHEN an override names an unknown component THEN creation fails', () => {
+      expect(() => createComponentRegistry(components, {
+        components: [{ id: 'z', aliases: [], historicalNames: [] }],
+        combinedNames: [],
+      })).toThrow('Unknown component id in registry: z');
+    });
+
+    it('WHEN two components claim the same alias THEN creation fails', () => {
+      expect(() => createComponentRegistry(components, {
+        components: [
+          { id: 'a', aliases: ['Shared'], historicalNames: [] },
+          { id: 'b', aliases: ['Shared'], historicalNames: [] },
+        ],
+        combinedNames: [],
+      })).toThrow(/claimed by more than one/);
+    });
+
+    it('WHEN incidents use unknown names THEN they are reported with counts', () => {
+      const registry = createComponentRegistry(components, { components: [], combinedNames: [] });
+      const incidents = [
+        { data: { components: [{ name: 'Alpha' }, { name: 'Gamma' }] } },
+        { data: { components: [{ name: 'Gamma' }, { name: 'Alpha and Beta' }] } },
+      ];
+
+      expect(findUnmatchedComponentNames(incidents, registry)).toEqual(new Map([['Gamma', 2]]));
+    });
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Component Registry
+ * Resolves the free-text component names found in incidents to the stable component IDs
+ * of src/data/components.json
+ *
+ * Names resolve, case-insensitively, through:
+ * - the component's current name, its aliases and its historical names
+ * - explicit combined names (e.g. "Issues, PRs, Projects"), from src/data/component-registry.json
+ * - combined names joined by "and" or commas (e.g. "Git Operations and Codespaces"),
+ *   when every part resolves on its own
+ *
+ * The same registry runs at build time and in the browser (see scripts/component-filter.ts).
+ *
+ * Components flagged `informational` are not covered by the SLA but their uptime is still tracked
+ * (see informational-uptime.ts).
+ */
+
+import componentsData from '../data/components.json';
+import registryData from '../data/component-registry.json';
+
+export interface ComponentRegistryEntry {
+  id: string;
+  name: string;
+  aliases: string[];
+  historicalNames: string[];
+  // Tracked for uptime even though no SLA covers it
+  informational: boolean;
+}
+
+export interface CombinedComponentName {
+  name: string;
+  componentIds: string[];
+}
+
+export interface ComponentRegistry {
+  entries: ComponentRegistryEntry[];
+  // Normalized name -> component IDs
+  names: Map<string, string[]>;
+  // Resolved names, cached per registry
+  cache: Map<string, string[]>;
+}
+
+/**
+ * Normalize component name for comparison
+ * Removes leading "and " (case insensitive) and trims whitespace
+ * This handles cases where scraping results in names like "and Pages"
+ */
+export function normalizeComponentName(name: string): string {
+  return name.trim().replace(/^and\s+/i, '');
+}
+
+/**
+ * Lookup key for a name: normalized, lower-cased, single spaces
+ */
+function getNameKey(name: string): string {
+  return normalizeComponentName(name).toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Build a registry from the components list and the registry overrides
+ * @throws Error when an override refers to an unknown component or a name is claimed twice
+ */
+export function createComponentRegistry(
+  components: { id: string; name: string }[],
+  overrides: {
+    components: { id: string; aliases: string[]; historicalNames: string[]; informational?: boolean }[];
+    combinedNames: CombinedComponentName[];
+  }
+): ComponentRegistry {
+  const knownIds = new Set(components.map(component => component.id));
+  for (const id of [...overrides.components.map(o => o.id), ...overrides.combinedNames.flatMap(c => c.componentIds)]) {
+    if (!knownIds.has(id)) {
+      throw new Error(`Unknown component id in registry: ${id}`);
+    }
+  }
+
+  const entries = components.map(component => {
+    const override = overrides.components.find(o => o.id === component.id);
+    return {
+      id: component.id,
+      name: component.name,
+      aliases: override?.aliases ?? [],
+      historicalNames: override?.historicalNames ?? [],
+      informational: override?.informational ?? false,
+    };
+  });
+
+  const names = new Map<string, string[]>();
+  const addName = (name: string, ids: string[]) => {
+    const key = getNameKey(name);
+    const existing = names.get(key);
+    if (existing && existing.join('|') !== ids.join('|')) {
+      throw new Error(`Component name "${name}" is claimed by more than one registry entry`);
+    }
+    names.set(key, ids);
+  };
+
+  for (const entry of entries) {
+    for (const name of [entry.name, ...entry.aliases, ...entry.historicalNames]) {
+      addName(name, [entry.id]);
+    }
+  }
+  for (const combined of overrides.combinedNames) {
+    addName(combined.name, combined.componentIds);
+  }
+
+  return { entries, names, cache: new Map() };
+}
+
+export const COMPONENT_REGISTRY = createComponentRegistry(componentsData, registryData);
+
+/**
+ * Resolve a component name from an incident to canonical component IDs
+ * Returns an empty array when the name (or any part of a combined name) is unknown
+ *
+ * Examples:
+ * - "Git Operations" -> ["8l4ygp009s5s"]
+ * - "and Actions" -> ["br0l2tvcx85d"]
+ * - "Issues and Pull Requests" -> ["kr09ddfgbfsf", "hhtssxt0f5v2"]
+ * - "Copilot AI Model Providers" -> ["cnnb39dkkk82"] (not Copilot)
+ */
+export function resolveComponentIds(name: string, registry: ComponentRegistry = COMPONENT_REGISTRY): string[] {
+  const key = getNameKey(name);
+  const cached = registry.cache.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  let ids = registry.names.get(key);
+  if (!ids) {
+    const parts = key.split(/\s*,\s*|\s+and\s+/).filter(part => part.length > 0);
+    const resolved = parts.map(part => registry.names.get(part));
+    ids = parts.length > 1 && resolved.every(part => part !== undefined)
+      ? [...new Set(resolved.flat() as string[])]
+      : [];
+  }
+
+  registry.cache.set(key, ids);
+  return ids;
+}
+
+/**
+ * Resolve a component listed on an incident
+ * A known stable ID wins over the name; API incidents carry one, scraped incidents only have names
+ */
+export function getIncidentComponentIds(
+  component: { id?: string; name: string },
+  registry: ComponentRegistry = COMPONENT_REGISTRY
+): string[] {
+  if (component.id && registry.entries.some(entry => entry.id === component.id)) {
+    return [component.id];
+  }
+  return resolveComponentIds(component.name, registry);
+}
+
+/**
+ * Get a registry entry by component ID
+ */
+export function getComponentById(
+  id: string,
+  registry: ComponentRegistry = COMPONENT_REGISTRY
+): ComponentRegistryEntry | undefined {
+  return registry.entries.find(entry => entry.id === id);
+}
+
+/**
+ * List component names that do not resolve to any registry entry, with how often each occurs
+ */
+export function findUnmatchedComponentNames(
+  incidents: { data: { components?: { name: string }[] } }[],
+  registry: ComponentRegistry = COMPONENT_REGISTRY
+): Map<string, number> {
+  const unmatched = new Map<string, number>();
+  for (const incident of incidents) {
+    for (const component of incident.data.components ?? []) {
+      if (resolveComponentIds(component.name, registry).length === 0) {
+        unmatched.set(component.name, (unmatched.get(component.name) ?? 0) + 1);
+      }
+    }
+  }
+  return unmatched;
+}
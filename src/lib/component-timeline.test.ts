@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { buildComponentTimeline, getComponentStatusMultiplier } from './component-timeline';
+import type { IncidentUpdate } from '../content/config';
+
+/**
+ * Test Suite for Component Status Timelines
+ *
+ * Timelines are rebuilt from incident_updates[].affected_components,
+ * where each entry records a component's old_status -> new_status at the update time.
+ */
+
+const START = Date.parse('2025-02-15T10:00:00Z');
+const END = Date.parse('2025-02-15T12:00:00Z');
+
+// Helper to create an update with a single component transition
+function createUpdate(
+  createdAt: string,
+  name: string,
+  oldStatus: string,
+  newStatus: string
+): IncidentUpdate {
+  return {
+    id: createdAt,
+    status: 'investigating',
+    body: '',
+    created_at: createdAt,
+    affected_components: [{ code: name.toLowerCase(), name, old_status: oldStatus, new_status: newStatus }],
+  };
+}
+
+const matchesActions = (name: string) => name === 'Actions';
+
+describe('Component Status Multiplier Tests', () => {
+  it('WHEN status is major_outage THEN multiplier should be 1.0', () => {
+    expect(getComponentStatusMultiplier('major_outage')).toBe(1.0);
+  });
+
+  it('WHEN status is operational or under_maintenance THEN multiplier should be 0', () => {
+    expect(getComponentStatusMultiplier('operational')).toBe(0);
+    expect(getComponentStatusMultiplier('under_maintenance')).toBe(0);
+  });
+
+  it('WHEN status is unknown THEN multiplier should default to 0.5', () => {
+    expect(getComponentStatusMultiplier('something_else')).toBe(0.5);
+  });
+});
+
+describe('Component Timeline Tests', () => {
+  describe('GIVEN updates without the component', () => {
+    it('WHEN building the timeline THEN returns null', () => {
+      // Given: Only Pages transitions
+      const updates = [createUpdate('2025-02-15T10:30:00Z', 'Pages', 'operational', 'major_outage')];
+
+      // When/Then: No timeline for Actions
+      expect(buildComponentTimeline(updates, matchesActions, START, END)).toBeNull();
+    });
+  });
+
+  describe('GIVEN transitions recorded after the incident started', () => {
+    it('WHEN building the timeline THEN the first old_status covers the time before it', () => {
+      // Given: Actions goes degraded -> major outage at 10:30, then operational at 11:00
+      const updates = [
+        createUpdate('2025-02-15T11:00:00Z', 'Actions', 'major_outage', 'operational'),
+        createUpdate('2025-02-15T10:30:00Z', 'Actions', 'degraded_performance', 'major_outage'),
+      ];
+
+      // When: Building the timeline
+      const timeline = buildComponentTimeline(updates, matchesActions, START, END);
+
+      // Then: Segments are chronological and cover the whole incident
+      expect(timeline).toEqual([
+        { start: START, end: Date.parse('2025-02-15T10:30:00Z'), status: 'degraded_performance' },
+        { start: Date.parse('2025-02-15T10:30:00Z'), end: Date.parse('2025-02-15T11:00:00Z'), status: 'major_outage' },
+        { start: Date.parse('2025-02-15T11:00:00Z'), end: END, status: 'operational' },
+      ]);
+    });
+  });
+
+  describe('GIVEN a transition timestamped after the incident end', () => {
+    it('WHEN building the timeline THEN segments are clamped to the incident', () => {
+      // Given: The recovery transition is posted after the incident end
+      const updates = [
+        createUpdate('2025-02-15T10:00:00Z', 'Actions', 'operational', 'partial_outage'),
+        createUpdate('2025-02-15T13:00:00Z', 'Actions', 'partial_outage', 'operational'),
+      ];
+
+      // When: Building the timeline
+      const timeline = buildComponentTimeline(updates, matchesActions, START, END);
+
+      // Then: A single partial outage segment ending at the incident end
+      expect(timeline).toEqual([{ start: START, end: END, status: 'partial_outage' }]);
+    });
+  });
+});
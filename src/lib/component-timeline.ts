@@ -0,0 +1,87 @@
+/**
+ * Component Status Timeline
+ * Rebuilds a per-component status timeline from incident update transitions
+ */
+
+import type { IncidentUpdate } from '../content/config';
+import { getProfileStatusMultiplier, type ImpactProfileName } from './impact-profiles';
+
+/**
+ * Component statuses published by the GitHub Status API, from healthy to worst
+ */
+export type ComponentStatusValue =
+  | 'operational'
+  | 'degraded_performance'
+  | 'partial_outage'
+  | 'major_outage'
+  | 'under_maintenance';
+
+/**
+ * A span of time during which a component held a single status
+ * Timestamps are epoch milliseconds
+ */
+export interface StatusSegment {
+  start: number;
+  end: number;
+  status: string;
+}
+
+/**
+ * Get downtime multiplier for a component status
+ * Mirrors the incident impact weights: degraded ~ minor, partial ~ major, major outage ~ critical
+ */
+export function getComponentStatusMultiplier(status: string, profile: ImpactProfileName = 'current'): number {
+  return getProfileStatusMultiplier(status, profile);
+}
+
+/**
+ * Rebuild the status timeline of one component during an incident
+ *
+ * Each update's `affected_components` entry records the component's status
+ * transition at the time of the update. The component holds the `old_status`
+ * of its first transition from the incident start, then each `new_status`
+ * until the next transition or the incident end.
+ *
+ * @param updates - Incident updates (any order)
+ * @param matchesComponent - Predicate selecting the component's entries by name
+ * @param incidentStart - Incident start (epoch ms)
+ * @param incidentEnd - Incident end (epoch ms)
+ * @returns Segments covering the incident, or null if no transition names the component
+ */
+export function buildComponentTimeline(
+  updates: IncidentUpdate[],
+  matchesComponent: (name: string) => boolean,
+  incidentStart: number,
+  incidentEnd: number
+): StatusSegment[] | null {
+  const transitions = updates
+    .map(update => ({
+      time: new Date(update.created_at).getTime(),
+      change: update.affected_components?.find(c => matchesComponent(c.name)),
+    }))
+    .filter((t): t is { time: number; change: NonNullable<typeof t.change> } => t.change !== undefined)
+    .sort((a, b) => a.time - b.time);
+
+  if (transitions.length === 0) {
+    return null;
+  }
+
+  const segments: StatusSegment[] = [];
+  let cursor = incidentStart;
+  let status = transitions[0].change.old_status;
+
+  for (const transition of transitions) {
+    const time = Math.min(Math.max(transition.time, incidentStart), incidentEnd);
+    if (time > cursor) {
+      segments.push({ start: cursor, end: time, status });
+      cursor = time;
+    }
+    status = transition.change.new_status;
+  }
+
+  if (incidentEnd > cursor) {
+    segments.push({ start: cursor, end: incidentEnd, status });
+  }
+
+  return segments;
+}
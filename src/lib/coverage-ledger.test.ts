@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import { assessCoverage, getObservedIntervals } from './coverage-ledger';
+import type { CoverageEntry } from '../content/config';
+
+/**
+ * Test Suite for the Data Coverage Ledger
+ *
+ * Each ledger entry records the range of incident creation times a fetch could see.
+ * Coverage is the share of a period inside those ranges.
+ */
+
+// Helper to create a ledger entry
+function createEntry(
+  id: string,
+  rangeStart: string,
+  rangeEnd: string,
+  overrides: Partial<CoverageEntry> = {}
+): CoverageEntry {
+  return {
+    id,
+    source: 'api',
+    fetchedAt: rangeEnd,
+    rangeStart,
+    rangeEnd,
+    oldestIncidentAt: rangeStart,
+    newestIncidentAt: rangeEnd,
+    incidentCount: 10,
+    newIncidentCount: 1,
+    possibleGap: false,
+    ...overrides,
+  };
+}
+
+const JANUARY_START = new Date('2025-01-01T00:00:00Z');
+const JANUARY_END = new Date('2025-02-01T00:00:00Z');
+const AFTER_JANUARY = new Date('2025-03-01T00:00:00Z');
+
+describe('Observed Interval Tests', () => {
+  it('WHEN entries overlap THEN merges them', () => {
+    const ledger = [
+      createEntry('a', '2025-01-01T00:00:00Z', '2025-01-10T00:00:00Z'),
+      createEntry('b', '2025-01-05T00:00:00Z', '2025-01-20T00:00:00Z'),
+    ];
+
+    const intervals = getObservedIntervals(ledger, AFTER_JANUARY);
+
+    expect(intervals).toHaveLength(1);
+    expect(new Date(intervals[0].end).toISOString()).toBe('2025-01-20T00:00:00.000Z');
+  });
+
+  it('WHEN an entry was fetched after asOf THEN ignores it', () => {
+    const ledger = [createEntry('a', '2025-01-01T00:00:00Z', '2025-01-10T00:00:00Z')];
+
+    expect(getObservedIntervals(ledger, new Date('2025-01-05T00:00:00Z'))).toHaveLength(0);
+  });
+});
+
+describe('Period Coverage Tests', () => {
+  describe('GIVEN a ledger covering the whole period', () => {
+    it('WHEN assessing coverage THEN the ratio is 1 with no gaps', () => {
+      const ledger = [createEntry('a', '2024-12-01T00:00:00Z', '2025-02-15T00:00:00Z')];
+
+      const coverage = assessCoverage(ledger, JANUARY_START, JANUARY_END, AFTER_JANUARY);
+
+      expect(coverage.ratio).toBe(1);
+      expect(coverage.gaps).toHaveLength(0);
+      expect(coverage.warnings).toHaveLength(0);
+    });
+  });
+
+  describe('GIVEN a ledger with a hole in the middle of the period', () => {
+    it('WHEN assessing coverage THEN reports the gap and the partial ratio', () => {
+      // Given: Observed Jan 1-11 and Jan 21-Feb 1 (10 days missing out of 31)
+      const ledger = [
+        createEntry('a', '2025-01-01T00:00:00Z', '2025-01-11T00:00:00Z'),
+        createEntry('b', '2025-01-21T00:00:00Z', '2025-02-01T00:00:00Z'),
+      ];
+
+      // When: Assessing January
+      const coverage = assessCoverage(ledger, JANUARY_START, JANUARY_END, AFTER_JANUARY);
+
+      // Then: One 10-day gap
+      expect(coverage.ratio).toBeCloseTo(21 / 31, 6);
+      expect(coverage.gaps).toHaveLength(1);
+      expect(coverage.gaps[0].start.toISOString()).toBe('2025-01-11T00:00:00.000Z');
+      expect(coverage.gaps[0].end.toISOString()).toBe('2025-01-21T00:00:00.000Z');
+    });
+  });
+
+  describe('GIVEN a period still in progress', () => {
+    it('WHEN assessing coverage THEN only the elapsed part counts', () => {
+      // Given: Observed through Jan 10, evaluated on Jan 10
+      const ledger = [createEntry('a', '2024-12-01T00:00:00Z', '2025-01-10T00:00:00Z')];
+      const asOf = new Date('2025-01-10T00:00:00Z');
+
+      // When: Assessing January
+      const coverage = assessCoverage(ledger, JANUARY_START, JANUARY_END, asOf);
+
+      // Then: Fully observed so far
+      expect(coverage.ratio).toBe(1);
+      expect(coverage.elapsedMinutes).toBe(9 * 24 * 60);
+    });
+
+    it('WHEN the period has not started THEN the ratio is 0', () => {
+      const coverage = assessCoverage([], JANUARY_START, JANUARY_END, new Date('2024-12-01T00:00:00Z'));
+
+      expect(coverage.ratio).toBe(0);
+      expect(coverage.gaps).toHaveLength(0);
+    });
+  });
+
+  describe('GIVEN a fetch flagged as a possible gap', () => {
+    // An earlier fetch observed up to Jan 5; the next returned only new incidents from Jan 20
+    const ledger = [
+      createEntry('a', '2024-12-01T00:00:00Z', '2025-01-05T00:00:00Z'),
+      createEntry('b', '2025-01-20T00:00:00Z', '2025-01-25T00:00:00Z', {
+        possibleGap: true,
+        incidentCount: 50,
+        newIncidentCount: 50,
+      }),
+    ];
+
+    it('WHEN the period overlaps the suspect window THEN warns', () => {
+      const coverage = assessCoverage(ledger, JANUARY_START, JANUARY_END, AFTER_JANUARY);
+
+      expect(coverage.warnings).toHaveLength(1);
+      expect(coverage.warnings[0]).toContain('all new');
+    });
+
+    it('WHEN the period ends before the suspect window THEN does not warn', () => {
+      const coverage = assessCoverage(
+        ledger,
+        new Date('2024-12-01T00:00:00Z'),
+        new Date('2025-01-01T00:00:00Z'),
+        AFTER_JANUARY
+      );
+
+      expect(coverage.warnings).toHaveLength(0);
+    });
+  });
+});
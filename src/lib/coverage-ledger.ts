@@ -0,0 +1,142 @@
+/**
+ * Data Coverage Ledger
+ * Decides which time ranges we actually observed, from the entries recorded by the fetch scripts
+ *
+ * A period with no incidents only means 100% uptime if we were watching during it.
+ * The ledger lists every fetch (API) and scraped history page along with the range
+ * of incident creation times it could see; anything outside those ranges is a gap.
+ */
+
+import type { CoverageEntry } from '../content/config';
+
+/**
+ * A span of time not observed by any ledger entry
+ */
+export interface CoverageGap {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * How much of a period the ledger covers
+ * Only the elapsed part of the period (up to "as of") is considered
+ */
+export interface PeriodCoverage {
+  ratio: number; // 0-1, observed share of the elapsed period
+  observedMinutes: number;
+  elapsedMinutes: number;
+  gaps: CoverageGap[];
+  warnings: string[];
+}
+
+interface Interval {
+  start: number;
+  end: number;
+}
+
+/**
+ * Get the observed ranges known at `asOf`, merged and sorted (epoch ms)
+ * Entries fetched after `asOf` are ignored so past evaluations stay reproducible
+ */
+export function getObservedIntervals(ledger: CoverageEntry[], asOf: Date = new Date()): Interval[] {
+  const asOfTime = asOf.getTime();
+  const intervals = ledger
+    .filter(entry => new Date(entry.fetchedAt).getTime() <= asOfTime)
+    .map(entry => ({
+      start: new Date(entry.rangeStart).getTime(),
+      end: Math.min(new Date(entry.rangeEnd).getTime(), asOfTime),
+    }))
+    .filter(interval => interval.end > interval.start)
+    .sort((a, b) => a.start - b.start);
+
+  const merged: Interval[] = [];
+  for (const interval of intervals) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      last.end = Math.max(last.end, interval.end);
+    } else {
+      merged.push({ ...interval });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Describe ledger entries flagged as possibly incomplete that touch a period
+ *
+ * A flagged entry is suspect from the end of the coverage recorded before it
+ * (or its own range start) through its range end.
+ */
+function getGapWarnings(ledger: CoverageEntry[], start: number, end: number, asOf: number): string[] {
+  return ledger
+    .filter(entry => entry.possibleGap && new Date(entry.fetchedAt).getTime() <= asOf)
+    .filter(entry => {
+      const fetchedAt = new Date(entry.fetchedAt).getTime();
+      const rangeStart = new Date(entry.rangeStart).getTime();
+      const previousEnds = ledger
+        .filter(other => other !== entry && new Date(other.fetchedAt).getTime() < fetchedAt)
+        .map(other => new Date(other.rangeEnd).getTime())
+        .filter(time => time <= rangeStart);
+      const suspectStart = previousEnds.length > 0 ? Math.max(...previousEnds) : rangeStart;
+      const suspectEnd = new Date(entry.rangeEnd).getTime();
+
+      return suspectStart < end && suspectEnd >= start;
+    })
+    .map(entry => entry.note ?? (
+      `${entry.source === 'scrape' ? 'Scrape' : 'Fetch'} at ${entry.fetchedAt} returned ` +
+      `${entry.incidentCount} incidents, all new: incidents before ${entry.oldestIncidentAt ?? entry.rangeStart} may be missing`
+    ));
+}
+
+/**
+ * Assess how much of a period the ledger covers
+ *
+ * @param ledger - Coverage ledger entries
+ * @param startDate - Period start
+ * @param endDate - Period end
+ * @param asOf - Evaluation time; the period is cut off here
+ */
+export function assessCoverage(
+  ledger: CoverageEntry[],
+  startDate: Date,
+  endDate: Date,
+  asOf: Date = new Date()
+): PeriodCoverage {
+  const start = startDate.getTime();
+  const end = Math.min(endDate.getTime(), asOf.getTime());
+
+  if (end <= start) {
+    return { ratio: 0, observedMinutes: 0, elapsedMinutes: 0, gaps: [], warnings: [] };
+  }
+
+  let observed = 0;
+  let cursor = start;
+  const gaps: CoverageGap[] = [];
+
+  for (const interval of getObservedIntervals(ledger, asOf)) {
+    const overlapStart = Math.max(interval.start, start);
+    const overlapEnd = Math.min(interval.end, end);
+    if (overlapEnd <= overlapStart) continue;
+
+    if (overlapStart > cursor) {
+      gaps.push({ start: new Date(cursor), end: new Date(overlapStart) });
+    }
+    observed += overlapEnd - overlapStart;
+    cursor = Math.max(cursor, overlapEnd);
+  }
+
+  if (cursor < end) {
+    gaps.push({ start: new Date(cursor), end: new Date(end) });
+  }
+
+  const elapsedMinutes = (end - start) / (1000 * 60);
+  const observedMinutes = observed / (1000 * 60);
+
+  return {
+    ratio: observedMinutes / elapsedMinutes,
+    observedMinutes,
+    elapsedMinutes,
+    gaps,
+    warnings: getGapWarnings(ledger, start, end, asOf.getTime()),
+  };
+}
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { calculateDailyUptime } from './daily-uptime';
+import { createIncident } from './test-fixtures';
+import type { CoverageEntry } from '../content/config';
+
+/**
+ * Test Suite for Daily Uptime
+ *
+ * Each calendar day is its own SLA period; a day of 1440 minutes loses
+ * 1/1440 of its uptime per weighted minute of downtime.
+ */
+
+const AS_OF = new Date('2025-05-10T12:00:00Z');
+
+// Ledger entry observing the given range
+function observed(rangeStart: string, rangeEnd: string): CoverageEntry {
+  return {
+    id: `${rangeStart}-${rangeEnd}`,
+    source: 'api',
+    fetchedAt: rangeEnd,
+    rangeStart,
+    rangeEnd,
+    oldestIncidentAt: rangeStart,
+    newestIncidentAt: rangeEnd,
+    incidentCount: 10,
+    newIncidentCount: 1,
+    possibleGap: false,
+  };
+}
+
+const ledger = [observed('2025-04-01T00:00:00Z', '2025-05-10T12:00:00Z')];
+
+describe('Daily Uptime Tests', () => {
+  describe('GIVEN an incident crossing midnight', () => {
+    it('WHEN bucketing by day THEN each day gets its own share of the downtime', () => {
+      // Given: 23:00-01:00 full outage
+      const incidents = [createIncident('a', '2025-05-05T23:00:00Z', 120, ['Actions'])];
+
+      const { days } = calculateDailyUptime(incidents, 'Actions', 7, { asOf: AS_OF, ledger });
+
+      // Then: 60 minutes on each side of midnight, listed on both days
+      const may5 = days.find(day => day.label === '2025-05-05')!;
+      const may6 = days.find(day => day.label === '2025-05-06')!;
+      expect(may5.downtimeMinutes).toBe(60);
+      expect(may6.downtimeMinutes).toBe(60);
+      expect(may5.uptimePercentage).toBeCloseTo(100 - (60 / 1440) * 100, 3);
+      expect(may6.incidents).toEqual([{ id: 'a', name: 'Incident with Actions', impact: 'critical', downtimeMinutes: 60 }]);
+    });
+  });
+
+  describe('GIVEN overlapping incidents on one day', () => {
+    it('WHEN summing the day THEN overlaps count once while each incident lists its own downtime', () => {
+      const incidents = [
+        createIncident('a', '2025-05-08T10:00:00Z', 60, ['Actions']),
+        createIncident('b', '2025-05-08T10:30:00Z', 60, ['Actions']),
+      ];
+
+      const { days } = calculateDailyUptime(incidents, 'Actions', 7, { asOf: AS_OF, ledger });
+      const may8 = days.find(day => day.label === '2025-05-08')!;
+
+      // Then: 10:00-11:30 in total
+      expect(may8.downtimeMinutes).toBe(90);
+      expect(may8.incidents.map(incident => incident.downtimeMinutes)).toEqual([60, 60]);
+    });
+  });
+
+  describe('GIVEN the window of days', () => {
+    it('WHEN listing them THEN they run oldest first up to the day of asOf, which ends at asOf', () => {
+      const result = calculateDailyUptime([], 'Actions', 7, { asOf: AS_OF, ledger });
+
+      expect(result.days.map(day => day.label)).toEqual([
+        '2025-05-04', '2025-05-05', '2025-05-06', '2025-05-07', '2025-05-08', '2025-05-09', '2025-05-10',
+      ]);
+      expect(result.days[6].endDate).toEqual(AS_OF);
+      expect(result.uptimePercentage).toBe(100);
+    });
+
+    it('WHEN a day was not observed THEN it has no data', () => {
+      // Given: Nothing observed before May 7
+      const partialLedger = [observed('2025-05-07T00:00:00Z', '2025-05-10T12:00:00Z')];
+
+      const { days } = calculateDailyUptime([], 'Actions', 7, { asOf: AS_OF, ledger: partialLedger });
+
+      expect(days.map(day => day.hasData)).toEqual([false, false, false, true, true, true, true]);
+    });
+  });
+});
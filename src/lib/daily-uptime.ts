@@ -0,0 +1,118 @@
+/**
+ * Daily Uptime
+ * Weighted downtime and uptime per component and calendar day, for the 90-day status strips
+ *
+ * Each day is evaluated like any other SLA period: overlapping incidents count once at the highest
+ * weight, excluded maintenance is taken out, and days our fetches did not observe have no data.
+ * The day containing "as of" ends at "as of".
+ */
+
+import type { CollectionEntry } from 'astro:content';
+import { getRecentDays } from './date-utils';
+import {
+  calculateComponentSLA,
+  findComponentIncidents,
+  getComponentDowntimeIntervals,
+  getIncidentIndex,
+  sumWeightedDowntimeMinutes,
+  withFixedAsOf,
+  type SLACalculationOptions,
+} from './sla-calculator';
+
+// Type for incident entries from content collections
+type IncidentEntry = CollectionEntry<'incidents'>;
+
+export const DAILY_UPTIME_DAYS = 90;
+
+/**
+ * An incident behind a day's downtime
+ */
+export interface DayIncident {
+  id: string;
+  name: string;
+  impact: string;
+  // Weighted downtime this incident alone adds within the day (overlaps are counted once in the total)
+  downtimeMinutes: number;
+}
+
+export interface DailyUptime {
+  label: string; // e.g. "2025-10-01"
+  startDate: Date;
+  endDate: Date;
+  uptimePercentage: number;
+  downtimeMinutes: number; // Weighted
+  hasData: boolean;
+  incidents: DayIncident[];
+}
+
+export interface ComponentDailyUptime {
+  componentName: string;
+  // Over all days shown
+  uptimePercentage: number;
+  downtimeMinutes: number;
+  days: DailyUptime[]; // Oldest first
+}
+
+/**
+ * Calculate the uptime of one component for each of the last `days` days
+ * The most recent day is the one containing `options.asOf` (defaults to now)
+ */
+export function calculateDailyUptime(
+  allIncidents: IncidentEntry[],
+  componentName: string,
+  days: number = DAILY_UPTIME_DAYS,
+  options: SLACalculationOptions = {}
+): ComponentDailyUptime {
+  const { mode = 'incident-impact', profile = 'current' } = options;
+  const fixedOptions = withFixedAsOf(allIncidents, options);
+  const asOf = fixedOptions.asOf!;
+  const index = getIncidentIndex(allIncidents, asOf);
+
+  const dailyUptime = getRecentDays(days, asOf).reverse().map((day): DailyUptime => {
+    const endDate = day.endDate > asOf ? asOf : day.endDate;
+    const result = calculateComponentSLA(allIncidents, componentName, day.startDate, endDate, fixedOptions);
+
+    const incidents = findComponentIncidents(index, componentName, day.startDate, endDate).map(({ incident }) => ({
+      id: incident.data.id,
+      name: incident.data.name,
+      impact: incident.data.impact,
+      downtimeMinutes: sumWeightedDowntimeMinutes(
+        getComponentDowntimeIntervals(incident, componentName, mode, profile, asOf),
+        day.startDate,
+        endDate
+      ),
+    }));
+
+    return {
+      label: day.label,
+      startDate: day.startDate,
+      endDate,
+      uptimePercentage: result.uptimePercentage,
+      downtimeMinutes: result.totalDowntimeMinutes,
+      hasData: !result.hasInsufficientData,
+      incidents,
+    };
+  });
+
+  const total = calculateComponentSLA(allIncidents, componentName, dailyUptime[0].startDate, asOf, fixedOptions);
+
+  return {
+    componentName,
+    uptimePercentage: total.uptimePercentage,
+    downtimeMinutes: total.totalDowntimeMinutes,
+    days: dailyUptime,
+  };
+}
+
+/**
+ * Calculate daily uptime for several components
+ */
+export function calculateDailyUptimes(
+  incidents: IncidentEntry[],
+  componentNames: string[],
+  days: number = DAILY_UPTIME_DAYS,
+  options: SLACalculationOptions = {}
+): ComponentDailyUptime[] {
+  const fixedOptions = withFixedAsOf(incidents, options);
+  return componentNames.map(name => calculateDailyUptime(incidents, name, days, fixedOptions));
+}
@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { readFileSync } from 'fs';
 import { join } from 'path';
+import { findUnmatchedComponentNames } from './component-registry';
 
 /**
  * Data Validation Tests
@@ -243,6 +244,17 @@ describe('Incident Data Validation Tests', () => {
     });
   });
 
+  describe('Component Registry Validation', () => {
+    it('WHEN resolving incident components THEN every name maps to a registry component', () => {
+      // Given: All component names used by incidents
+      // When: Resolving them through the component registry
+      const unmatched = findUnmatchedComponentNames(incidents.map(data => ({ data })));
+
+      // Then: None should be left over (add an alias, historical name or combined name otherwise)
+      expect([...unmatched.keys()]).toEqual([]);
+    });
+  });
+
   describe('Regression Prevention - Known Bad Incident', () => {
     it('WHEN checking for incident nwjwwhj118sf THEN it should not exist (was removed)', () => {
       // Given: The specific incident that caused the build failure
@@ -1,10 +1,12 @@
 /**
  * Date and Quarter Utilities
- * Handles calendar quarter calculations for GitHub SLA tracking
+ * Handles calendar quarter and month calculations for GitHub SLA tracking
  */
 
 export type Quarter = 1 | 2 | 3 | 4;
 
+export type Month = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9 | 10 | 11 | 12;
+
 export interface QuarterInfo {
   year: number;
   quarter: Quarter;
@@ -13,6 +15,20 @@ export interface QuarterInfo {
   endDate: Date;
 }
 
+export interface MonthInfo {
+  year: number;
+  month: Month;
+  label: string;
+  startDate: Date;
+  endDate: Date;
+}
+
+export interface DayInfo {
+  label: string;
+  startDate: Date;
+  endDate: Date;
+}
+
 /**
  * Get quarter number (1-4) from a date
  */
@@ -61,6 +77,62 @@ export function getQuarterInfo(year: number, quarter: Quarter): QuarterInfo {
   };
 }
 
+/**
+ * Get month start date
+ * @param month Calendar month (1-12)
+ */
+export function getMonthStart(year: number, month: Month): Date {
+  return new Date(year, month - 1, 1, 0, 0, 0, 0);
+}
+
+/**
+ * Get month end date
+ * @param month Calendar month (1-12)
+ */
+export function getMonthEnd(year: number, month: Month): Date {
+  // Last millisecond of the month: one ms before the first day of next month
+  const nextMonthStart = new Date(year, month, 1, 0, 0, 0, 0);
+  return new Date(nextMonthStart.getTime() - 1);
+}
+
+/**
+ * Get month label (e.g., "2025-01")
+ */
+export function getMonthLabel(year: number, month: Month): string {
+  return `${year}-${String(month).padStart(2, '0')}`;
+}
+
+/**
+ * Get complete month information
+ */
+export function getMonthInfo(year: number, month: Month): MonthInfo {
+  return {
+    year,
+    month,
+    label: getMonthLabel(year, month),
+    startDate: getMonthStart(year, month),
+    endDate: getMonthEnd(year, month),
+  };
+}
+
+/**
+ * Get the three calendar months that make up a quarter
+ */
+export function getMonthsInQuarter(year: number, quarter: Quarter): MonthInfo[] {
+  const firstMonth = (quarter - 1) * 3 + 1;
+  return [0, 1, 2].map(offset => getMonthInfo(year, (firstMonth + offset) as Month));
+}
+
+/**
+ * Format month for display (e.g., "Jan 2025")
+ */
+export function formatMonth(year: number, month: Month): string {
+  return getMonthStart(year, month).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+  });
+}
+
 /**
  * Parse quarter label (e.g., "2025-Q1") into year and quarter
  */
@@ -107,12 +179,12 @@ export function getQuartersBetween(startDate: Date, endDate: Date): QuarterInfo[
 /**
  * Get recent quarters for display
  * @param count Number of quarters to return (default: 8, which is 2 years)
+ * @param referenceDate Date whose quarter is the most recent one (default: now)
  */
-export function getRecentQuarters(count: number = 8): QuarterInfo[] {
+export function getRecentQuarters(count: number = 8, referenceDate: Date = new Date()): QuarterInfo[] {
   const quarters: QuarterInfo[] = [];
-  const now = new Date();
-  const currentYear = now.getFullYear();
-  const currentQuarter = getQuarter(now);
+  const currentYear = referenceDate.getFullYear();
+  const currentQuarter = getQuarter(referenceDate);
 
   let year = currentYear;
   let quarter = currentQuarter;
@@ -131,6 +203,30 @@ export function getRecentQuarters(count: number = 8): QuarterInfo[] {
   return quarters;
 }
 
+/**
+ * Get recent calendar days for display, most recent first
+ * @param count Number of days to return
+ * @param referenceDate Date whose day is the most recent one (default: now)
+ */
+export function getRecentDays(count: number, referenceDate: Date = new Date()): DayInfo[] {
+  const days: DayInfo[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const startDate = new Date(referenceDate.getFullYear(), referenceDate.getMonth(), referenceDate.getDate() - i);
+    const nextDayStart = new Date(startDate.getFullYear(), startDate.getMonth(), startDate.getDate() + 1);
+    const month = String(startDate.getMonth() + 1).padStart(2, '0');
+    const day = String(startDate.getDate()).padStart(2, '0');
+
+    days.push({
+      label: `${startDate.getFullYear()}-${month}-${day}`,
+      startDate,
+      endDate: new Date(nextDayStart.getTime() - 1), // 1ms before midnight
+    });
+  }
+
+  return days;
+}
+
 /**
  * Format date for display
  */
@@ -211,3 +307,12 @@ export function getQuarterTotalMinutes(year: number, quarter: Quarter): number {
   const end = getQuarterEnd(year, quarter);
   return getTotalMinutes(start, end);
 }
+
+/**
+ * Get total minutes in a month
+ */
+export function getMonthTotalMinutes(year: number, month: Month): number {
+  const start = getMonthStart(year, month);
+  const end = getMonthEnd(year, month);
+  return getTotalMinutes(start, end);
+}
@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateBurnRates,
+  calculateComponentErrorBudget,
+  calculateErrorBudget,
+} from './error-budget';
+import type { WeightedInterval } from './sla-calculator';
+import type { Maintenance } from './maintenance';
+import { resolveComponentIds } from './component-registry';
+import { createIncident, createMockIncident } from './test-fixtures';
+
+/**
+ * Test Suite for Error Budgets and Burn Rates
+ *
+ * At 99.9%, a 30-day month allows 43.2 minutes of downtime.
+ */
+
+const APRIL_START = new Date('2025-04-01T00:00:00Z');
+const MAY_START = new Date('2025-05-01T00:00:00Z');
+const MINUTE = 60 * 1000;
+
+// Helper to create a weighted interval from ISO times
+function interval(start: string, end: string, weight = 1): WeightedInterval {
+  return { start: new Date(start).getTime(), end: new Date(end).getTime(), weight };
+}
+
+describe('Error Budget Tests', () => {
+  describe('GIVEN a 30-day month', () => {
+    it('WHEN no downtime occurred THEN the whole budget remains', () => {
+      const budget = calculateErrorBudget([], APRIL_START, MAY_START, '2025-04', new Date('2025-04-15T00:00:00Z'));
+
+      expect(budget.allowedMinutes).toBeCloseTo(43.2, 6);
+      expect(budget.remainingRatio).toBe(1);
+      expect(budget.onTrackToBreach).toBe(false);
+    });
+
+    it('WHEN downtime exceeds the allowance THEN the budget is exhausted', () => {
+      // Given: 60 minutes of full downtime
+      const intervals = [interval('2025-04-02T10:00:00Z', '2025-04-02T11:00:00Z')];
+
+      // When: Evaluating mid-month
+      const budget = calculateErrorBudget(intervals, APRIL_START, MAY_START, '2025-04', new Date('2025-04-15T00:00:00Z'));
+
+      // Then: 16.8 minutes over
+      expect(budget.exhausted).toBe(true);
+      expect(budget.remainingMinutes).toBeCloseTo(-16.8, 6);
+      expect(budget.remainingRatio).toBe(0);
+    });
+
+    it('WHEN downtime after asOf exists THEN it is not counted yet', () => {
+      const intervals = [interval('2025-04-20T10:00:00Z', '2025-04-20T11:00:00Z')];
+
+      const budget = calculateErrorBudget(intervals, APRIL_START, MAY_START, '2025-04', new Date('2025-04-15T00:00:00Z'));
+
+      expect(budget.consumedMinutes).toBe(0);
+    });
+
+    it('WHEN the last week burned fast THEN the projection flags a breach', () => {
+      // Given: 30 minutes of downtime in the last 7 days, half the month left
+      const intervals = [interval('2025-04-14T10:00:00Z', '2025-04-14T10:30:00Z')];
+
+      // When: Evaluating on Apr 15
+      const budget = calculateErrorBudget(intervals, APRIL_START, MAY_START, '2025-04', new Date('2025-04-15T00:00:00Z'));
+
+      // Then: Still within budget, but on track to exceed it
+      expect(budget.exhausted).toBe(false);
+      expect(budget.onTrackToBreach).toBe(true);
+    });
+  });
+});
+
+describe('Burn Rate Tests', () => {
+  it('WHEN an hour is fully down THEN the 1h burn rate is 1000×', () => {
+    const asOf = new Date('2025-04-15T12:00:00Z');
+    const intervals = [{ start: asOf.getTime() - 60 * MINUTE, end: asOf.getTime(), weight: 1 }];
+
+    const rates = calculateBurnRates(intervals, asOf);
+
+    expect(rates.map(r => r.window)).toEqual(['1h', '6h', '24h', '7d']);
+    expect(rates[0].rate).toBeCloseTo(1000, 6);
+    expect(rates[1].rate).toBeCloseTo(1000 / 6, 6);
+  });
+
+  it('WHEN downtime is weighted THEN the burn rate scales with the weight', () => {
+    const asOf = new Date('2025-04-15T12:00:00Z');
+    const intervals = [{ start: asOf.getTime() - 60 * MINUTE, end: asOf.getTime(), weight: 0.25 }];
+
+    expect(calculateBurnRates(intervals, asOf)[0].rate).toBeCloseTo(250, 6);
+  });
+});
+
+describe('Component Error Budget Tests', () => {
+  it('WHEN an incident is ongoing THEN it burns budget up to asOf', () => {
+    // Given: A critical Git Operations incident open for the last 30 minutes
+    const asOf = new Date('2025-04-15T12:00:00Z');
+    const incident = createMockIncident('ongoing', '2025-04-15T11:30:00Z', null, 'critical');
+
+    // When: Calculating the budget as of now
+    const budget = calculateComponentErrorBudget([incident], 'Git Operations', { asOf });
+
+    // Then: 30 minutes consumed in both periods; 1h burn rate is 500×
+    expect(budget.month.consumedMinutes).toBeCloseTo(30, 6);
+    expect(budget.quarter.consumedMinutes).toBeCloseTo(30, 6);
+    expect(budget.burnRates[0].rate).toBeCloseTo(500, 6);
+  });
+
+  it('WHEN an incident falls in an excluded maintenance THEN it does not burn budget', () => {
+    // Given: A critical Git Operations outage 10:00-11:00, inside a maintenance announced a week before
+    const asOf = new Date('2025-04-15T12:00:00Z');
+    const incident = createIncident('during-maintenance', '2025-04-15T10:00:00Z', 60);
+    const maintenance: Maintenance = {
+      id: 'm1',
+      name: 'Database upgrade',
+      status: 'completed',
+      impact: 'maintenance',
+      created_at: '2025-04-08T09:00:00Z',
+      updated_at: '2025-04-15T11:00:00Z',
+      scheduled_for: '2025-04-15T10:00:00Z',
+      scheduled_until: '2025-04-15T11:00:00Z',
+      started_at: '2025-04-15T10:00:00Z',
+      resolved_at: '2025-04-15T11:00:00Z',
+      shortlink: 'https://stspg.io/m1',
+      components: [{ name: 'Git Operations', componentIds: resolveComponentIds('Git Operations') }],
+    };
+
+    // When: Calculating the budget with and without the maintenance archive
+    const withoutMaintenance = calculateComponentErrorBudget([incident], 'Git Operations', { asOf });
+    const budget = calculateComponentErrorBudget([incident], 'Git Operations', { asOf, maintenances: [maintenance] });
+
+    // Then: Nothing consumed, and the hour is taken out of the allowance like the SLA does
+    expect(withoutMaintenance.month.consumedMinutes).toBeCloseTo(60, 6);
+    expect(budget.month.consumedMinutes).toBe(0);
+    expect(budget.quarter.consumedMinutes).toBe(0);
+    expect(budget.burnRates[2].downtimeMinutes).toBe(0);
+    expect(budget.month.allowedMinutes).toBeCloseTo((30 * 24 * 60 - 60) * 0.001, 6);
+  });
+});
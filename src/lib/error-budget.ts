@@ -0,0 +1,208 @@
+/**
+ * Error Budget and Burn Rate
+ * How much downtime the SLA target (99.9% by default) still allows in the current month
+ * and quarter, and how fast it is being spent
+ *
+ * Burn rate is the share of a window lost to weighted downtime, divided by the share
+ * the SLA allows (0.1% at 99.9%). A burn rate of 1 spends the budget exactly by the end of the
+ * period; above 1 the budget runs out early.
+ *
+ * Scheduled maintenance the SLA terms exclude is taken out of the period and out of the downtime,
+ * as in calculateComponentSLA, so the budget matches the uptime the quarter is judged on.
+ */
+
+import type { CollectionEntry } from 'astro:content';
+import {
+  getMonthInfo,
+  getQuarter,
+  getQuarterInfo,
+  getTotalMinutes,
+  type Month,
+} from './date-utils';
+import {
+  getComponentDowntimeIntervals,
+  incidentComponentMatches,
+  sumWeightedDowntimeMinutes,
+  type SLACalculationOptions,
+  type WeightedInterval,
+} from './sla-calculator';
+import { ensureSnapshot, pinToNow } from './incident-snapshot';
+import { getSLADefinition, resolveSLADefinition } from './sla-definitions';
+import {
+  getExcludedMinutes,
+  getExcludedSpans,
+  getMaintenanceWindows,
+  removeExcludedSpans,
+  type ExcludedSpan,
+} from './maintenance';
+
+// Type for incident entries from content collections
+type IncidentEntry = CollectionEntry<'incidents'>;
+
+// Target of the current standard GitHub SLA
+export const SLA_TARGET_PERCENTAGE = getSLADefinition().target;
+
+// Share of a period the SLA allows as downtime
+function getAllowedDowntimeRatio(targetPercentage: number): number {
+  return 1 - targetPercentage / 100;
+}
+
+export const BURN_RATE_WINDOWS = [
+  { label: '1h', minutes: 60 },
+  { label: '6h', minutes: 6 * 60 },
+  { label: '24h', minutes: 24 * 60 },
+  { label: '7d', minutes: 7 * 24 * 60 },
+] as const;
+
+export interface BurnRate {
+  window: string;
+  downtimeMinutes: number;
+  rate: number;
+}
+
+export interface ErrorBudget {
+  periodLabel: string;
+  allowedMinutes: number; // Downtime allowed over the whole period
+  consumedMinutes: number; // Weighted downtime from period start to "as of"
+  remainingMinutes: number; // Negative once the budget is exhausted
+  remainingRatio: number; // Remaining share of the budget (0-1, clamped)
+  exhausted: boolean;
+  // Consumed downtime plus the rest of the period at the last 7 days' pace
+  projectedMinutes: number;
+  onTrackToBreach: boolean;
+}
+
+export interface ComponentErrorBudget {
+  componentName: string;
+  month: ErrorBudget;
+  quarter: ErrorBudget;
+  burnRates: BurnRate[];
+}
+
+/**
+ * Calculate the error budget of a period at a given moment
+ *
+ * @param intervals - Weighted downtime intervals of one component
+ * @param startDate - Period start
+ * @param endDate - Period end
+ * @param periodLabel - Period label (e.g. "2025-Q1")
+ * @param asOf - Evaluation time
+ * @param targetPercentage - Uptime target the budget derives from
+ * @param excludedSpans - Excluded maintenance within the period, as returned by getExcludedSpans
+ */
+export function calculateErrorBudget(
+  intervals: WeightedInterval[],
+  startDate: Date,
+  endDate: Date,
+  periodLabel: string,
+  asOf: Date = new Date(),
+  targetPercentage: number = SLA_TARGET_PERCENTAGE,
+  excludedSpans: ExcludedSpan[] = []
+): ErrorBudget {
+  const downtime = removeExcludedSpans(intervals, excludedSpans);
+  const periodMinutes = getTotalMinutes(startDate, endDate) - getExcludedMinutes(excludedSpans);
+  const allowedMinutes = periodMinutes * getAllowedDowntimeRatio(targetPercentage);
+  const elapsedEnd = new Date(Math.min(Math.max(asOf.getTime(), startDate.getTime()), endDate.getTime()));
+  const consumedMinutes = sumWeightedDowntimeMinutes(downtime, startDate, elapsedEnd);
+  const remainingMinutes = allowedMinutes - consumedMinutes;
+
+  // Project the rest of the period at the pace of the last 7 days
+  const paceWindowMinutes = BURN_RATE_WINDOWS[BURN_RATE_WINDOWS.length - 1].minutes;
+  const paceStart = new Date(asOf.getTime() - paceWindowMinutes * 60 * 1000);
+  const pace = sumWeightedDowntimeMinutes(downtime, paceStart, asOf) / paceWindowMinutes;
+  const projectedMinutes = consumedMinutes + pace * getTotalMinutes(elapsedEnd, endDate);
+
+  return {
+    periodLabel,
+    allowedMinutes,
+    consumedMinutes,
+    remainingMinutes,
+    remainingRatio: Math.min(Math.max(remainingMinutes / allowedMinutes, 0), 1),
+    exhausted: remainingMinutes < 0,
+    projectedMinutes,
+    onTrackToBreach: projectedMinutes > allowedMinutes,
+  };
+}
+
+/**
+ * Calculate burn rates over the trailing windows ending at `asOf`
+ * Downtime inside excluded maintenance does not burn the budget
+ */
+export function calculateBurnRates(
+  intervals: WeightedInterval[],
+  asOf: Date = new Date(),
+  targetPercentage: number = SLA_TARGET_PERCENTAGE,
+  excludedSpans: ExcludedSpan[] = []
+): BurnRate[] {
+  const downtime = removeExcludedSpans(intervals, excludedSpans);
+  return BURN_RATE_WINDOWS.map(({ label, minutes }) => {
+    const windowStart = new Date(asOf.getTime() - minutes * 60 * 1000);
+    const downtimeMinutes = sumWeightedDowntimeMinutes(downtime, windowStart, asOf);
+    return {
+      window: label,
+      downtimeMinutes,
+      rate: downtimeMinutes / minutes / getAllowedDowntimeRatio(targetPercentage),
+    };
+  });
+}
+
+/**
+ * Calculate month and quarter budgets and burn rates for one component
+ * The current month and quarter are those containing `options.asOf` (defaults to now)
+ */
+export function calculateComponentErrorBudget(
+  allIncidents: IncidentEntry[],
+  componentName: string,
+  options: SLACalculationOptions = {}
+): ComponentErrorBudget {
+  const { mode = 'incident-impact', profile = 'current' } = options;
+  const { asOf = pinToNow(allIncidents) } = options;
+  const incidents = ensureSnapshot(allIncidents, asOf);
+
+  const quarterInfo = getQuarterInfo(asOf.getFullYear(), getQuarter(asOf));
+  const monthInfo = getMonthInfo(asOf.getFullYear(), (asOf.getMonth() + 1) as Month);
+
+  // Each period uses the SLA version in force at its start; burn rates follow the version in force now
+  const monthDefinition = resolveSLADefinition(options, monthInfo.startDate);
+  const quarterDefinition = resolveSLADefinition(options, quarterInfo.startDate);
+  const currentDefinition = resolveSLADefinition(options, asOf);
+
+  // The quarter contains the month and every burn-rate window that matters for it;
+  // the 7-day window may reach into the previous quarter
+  const earliest = Math.min(
+    quarterInfo.startDate.getTime(),
+    asOf.getTime() - BURN_RATE_WINDOWS[BURN_RATE_WINDOWS.length - 1].minutes * 60 * 1000
+  );
+  const intervals = incidents
+    .filter(incident => incident.data.components?.some(c => incidentComponentMatches(c, componentName)))
+    .flatMap(incident => getComponentDowntimeIntervals(incident, componentName, mode, profile, asOf))
+    .filter(interval => interval.end > earliest && interval.start < asOf.getTime());
+
+  // Maintenance each period's SLA version excludes, including what is already scheduled later in it
+  const windows = getMaintenanceWindows(options.maintenances ?? [], asOf);
+  const monthSpans = getExcludedSpans(windows, componentName, monthInfo.startDate, monthInfo.endDate, monthDefinition, asOf);
+  const quarterSpans = getExcludedSpans(windows, componentName, quarterInfo.startDate, quarterInfo.endDate, quarterDefinition, asOf);
+  const burnSpans = getExcludedSpans(windows, componentName, new Date(earliest), asOf, currentDefinition, asOf);
+
+  return {
+    componentName,
+    month: calculateErrorBudget(
+      intervals, monthInfo.startDate, monthInfo.endDate, monthInfo.label, asOf, monthDefinition.target, monthSpans
+    ),
+    quarter: calculateErrorBudget(
+      intervals, quarterInfo.startDate, quarterInfo.endDate, quarterInfo.label, asOf, quarterDefinition.target, quarterSpans
+    ),
+    burnRates: calculateBurnRates(intervals, asOf, currentDefinition.target, burnSpans),
+  };
+}
+
+/**
+ * Calculate error budgets for several components
+ */
+export function calculateErrorBudgets(
+  incidents: IncidentEntry[],
+  componentNames: string[],
+  options: SLACalculationOptions = {}
+): ComponentErrorBudget[] {
+  return componentNames.map(name => calculateComponentErrorBudget(incidents, name, options));
+}
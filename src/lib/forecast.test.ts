@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import { forecastComponent, forecastPeriodUptime } from './forecast';
+import { createIncident, type IncidentImpact } from './test-fixtures';
+
+/**
+ * Test Suite for End-of-Period Uptime Forecasting
+ *
+ * April 2025 has 43,200 minutes; 99.9% allows 43.2 minutes of downtime, 99.0% allows 432.
+ */
+
+const APRIL_START = new Date('2025-04-01T00:00:00Z');
+const MAY_START = new Date('2025-05-01T00:00:00Z');
+const MID_APRIL = new Date('2025-04-15T00:00:00Z');
+
+// Helper to create one incident every `everyDays` days over the year before mid-April
+function createHistory(count: number, everyDays: number, durationMinutes: number, impact: IncidentImpact = 'critical') {
+  return Array.from({ length: count }, (_, i) => {
+    const start = new Date(MID_APRIL.getTime() - (i + 1) * everyDays * 24 * 60 * 60 * 1000);
+    return createIncident(`h${i}`, start.toISOString(), durationMinutes, ['Git Operations'], { impact });
+  });
+}
+
+describe('Uptime Forecast Tests', () => {
+  describe('GIVEN no incident history', () => {
+    it('WHEN nothing happened this period THEN every run ends at 100%', () => {
+      const forecast = forecastPeriodUptime([], 'Git Operations', APRIL_START, MAY_START, '2025-04', { asOf: MID_APRIL });
+
+      expect(forecast.medianUptime).toBe(100);
+      expect(forecast.probabilityBelowTarget).toBe(0);
+      expect(forecast.model.incidentCount).toBe(0);
+    });
+
+    it('WHEN the budget is already spent THEN a breach is certain', () => {
+      // Given: 60 minutes of critical downtime earlier in April
+      const incidents = [createIncident('spent', '2025-04-02T10:00:00Z', 60)];
+
+      // When: Forecasting the month
+      const forecast = forecastPeriodUptime(incidents, 'Git Operations', APRIL_START, MAY_START, '2025-04', {
+        asOf: MID_APRIL,
+        historyDays: 1,
+      });
+
+      // Then: Recorded downtime alone breaks 99.9%, but not 99.0%
+      expect(forecast.consumedMinutes).toBeCloseTo(60, 6);
+      expect(forecast.probabilityBelowTarget).toBe(1);
+      expect(forecast.probabilityBelowLowerTier).toBe(0);
+    });
+  });
+
+  describe('GIVEN a history of incidents', () => {
+    it('WHEN estimating the model THEN rate, durations and impact mix come from the history window', () => {
+      // Given: 12 critical and 12 minor incidents over the past year
+      const incidents = [
+        ...createHistory(12, 30, 60, 'critical'),
+        ...createHistory(12, 30, 120, 'minor').map(i => ({ ...i, id: `m${i.id}`, data: { ...i.data, id: `m${i.data.id}` } })),
+      ];
+
+      // When: Forecasting mid-April
+      const forecast = forecastPeriodUptime(incidents, 'Git Operations', APRIL_START, MAY_START, '2025-04', {
+        asOf: MID_APRIL,
+      });
+
+      // Then: 24 incidents in 365 days, half of each impact
+      expect(forecast.model.incidentCount).toBe(24);
+      expect(forecast.model.incidentsPerDay).toBeCloseTo(24 / 365, 6);
+      expect(forecast.model.impactMix).toEqual({ critical: 0.5, minor: 0.5 });
+      expect(forecast.model.meanDurationMinutes).toBeCloseTo(90, 6);
+      expect(forecast.expectedIncidents).toBeCloseTo((24 / 365) * 16, 6);
+    });
+
+    it('WHEN incidents are frequent and long THEN a breach is likely', () => {
+      // Given: A 2-hour critical outage every 3 days
+      const incidents = createHistory(100, 3, 120);
+
+      // When: Forecasting with half the month left
+      const forecast = forecastPeriodUptime(incidents, 'Git Operations', APRIL_START, MAY_START, '2025-04', {
+        asOf: MID_APRIL,
+      });
+
+      // Then: Around 5 more outages are expected, each alone breaking 99.9%
+      expect(forecast.probabilityBelowTarget).toBeGreaterThan(0.95);
+      expect(forecast.p10Uptime).toBeLessThanOrEqual(forecast.medianUptime);
+      expect(forecast.medianUptime).toBeLessThanOrEqual(forecast.p90Uptime);
+    });
+
+    it('WHEN run twice with the same seed THEN the forecast is identical', () => {
+      const incidents = createHistory(20, 15, 45);
+      const options = { asOf: MID_APRIL, simulations: 500 };
+
+      const first = forecastPeriodUptime(incidents, 'Git Operations', APRIL_START, MAY_START, '2025-04', options);
+      const second = forecastPeriodUptime(incidents, 'Git Operations', APRIL_START, MAY_START, '2025-04', options);
+
+      expect(second).toEqual(first);
+    });
+
+    it('WHEN a coverage ledger is given THEN the rate uses observed days only', () => {
+      // Given: 10 incidents, but we only observed the last 100 days
+      const incidents = createHistory(10, 10, 30);
+      const ledger = [{
+        id: 'recent',
+        source: 'api' as const,
+        fetchedAt: MID_APRIL.toISOString(),
+        rangeStart: new Date(MID_APRIL.getTime() - 100 * 24 * 60 * 60 * 1000).toISOString(),
+        rangeEnd: MID_APRIL.toISOString(),
+        oldestIncidentAt: null,
+        newestIncidentAt: null,
+        incidentCount: 10,
+        newIncidentCount: 10,
+        possibleGap: false,
+      }];
+
+      // When: Forecasting with the ledger
+      const forecast = forecastPeriodUptime(incidents, 'Git Operations', APRIL_START, MAY_START, '2025-04', {
+        asOf: MID_APRIL,
+        ledger,
+      });
+
+      // Then: 10 incidents per 100 days
+      expect(forecast.model.historyDays).toBeCloseTo(100, 6);
+      expect(forecast.model.incidentsPerDay).toBeCloseTo(0.1, 6);
+    });
+  });
+
+  describe('GIVEN an evaluation time', () => {
+    it('WHEN forecasting a component THEN the month and quarter containing asOf are projected', () => {
+      const forecast = forecastComponent([], 'Git Operations', { asOf: MID_APRIL });
+
+      expect(forecast.month.periodLabel).toBe('2025-04');
+      expect(forecast.quarter.periodLabel).toBe('2025-Q2');
+      expect(forecast.quarter.remainingMinutes).toBeCloseTo(forecast.month.remainingMinutes + 61 * 24 * 60, 6);
+    });
+  });
+});
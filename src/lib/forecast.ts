@@ -0,0 +1,279 @@
+/**
+ * End-of-Period Uptime Forecasting
+ * Projects where an in-progress month or quarter will end, from each component's incident history
+ *
+ * Monte Carlo model:
+ * - Frequency: new incidents arrive as a Poisson process at the component's historical rate
+ * - Severity: each new incident's weighted downtime is drawn from the component's past incidents,
+ *   which keeps their duration and impact mix together
+ * - Downtime already recorded this period is added to every simulated outcome
+ *
+ * Runs are seeded, so the same inputs always produce the same forecast.
+ */
+
+import type { CollectionEntry } from 'astro:content';
+import {
+  getMonthInfo,
+  getQuarter,
+  getQuarterInfo,
+  getTotalMinutes,
+  type Month,
+} from './date-utils';
+import {
+  getComponentDowntimeIntervals,
+  incidentComponentMatches,
+  sumWeightedDowntimeMinutes,
+  type SLACalculationOptions,
+} from './sla-calculator';
+import { ensureSnapshot, pinToNow } from './incident-snapshot';
+import { assessCoverage } from './coverage-ledger';
+import { getLowestTierThreshold, resolveSLADefinition } from './sla-definitions';
+
+// Type for incident entries from content collections
+type IncidentEntry = CollectionEntry<'incidents'>;
+
+const DEFAULT_SIMULATIONS = 5000;
+const DEFAULT_HISTORY_DAYS = 365;
+const MINUTES_PER_DAY = 24 * 60;
+
+export interface ForecastOptions extends SLACalculationOptions {
+  simulations?: number;
+  historyDays?: number;
+  seed?: number;
+}
+
+/**
+ * What the simulation learned from the component's history
+ */
+export interface ForecastModel {
+  historyDays: number; // Observed days in the history window
+  incidentCount: number;
+  incidentsPerDay: number;
+  impactMix: Record<string, number>; // Share of past incidents per impact
+  meanDurationMinutes: number;
+  meanWeightedMinutes: number;
+}
+
+export interface UptimeForecast {
+  componentName: string;
+  periodLabel: string;
+  targetPercentage: number;
+  lowerTierPercentage: number; // Threshold of the lowest credit tier (99.0% in the standard SLA)
+  consumedMinutes: number; // Weighted downtime recorded so far this period
+  remainingMinutes: number; // Minutes left in the period
+  expectedIncidents: number;
+  simulations: number;
+  medianUptime: number;
+  p10Uptime: number; // 1 in 10 runs ended at or below this
+  p90Uptime: number;
+  probabilityBelowTarget: number; // P(uptime < target)
+  probabilityBelowLowerTier: number; // P(uptime < lowest tier threshold)
+  model: ForecastModel;
+}
+
+export interface ComponentForecast {
+  componentName: string;
+  month: UptimeForecast;
+  quarter: UptimeForecast;
+}
+
+/**
+ * Small seeded PRNG (mulberry32), returns floats in [0, 1)
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Hash a string into a 32-bit seed so each component/period gets its own stream
+ */
+function hashSeed(text: string, seed: number): number {
+  let hash = seed >>> 0;
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 16777619) >>> 0;
+  }
+  return hash;
+}
+
+/**
+ * Draw from a Poisson distribution (Knuth's method; fine for the small means seen here)
+ */
+function samplePoisson(mean: number, random: () => number): number {
+  const limit = Math.exp(-mean);
+  let count = 0;
+  let product = random();
+  while (product > limit) {
+    count++;
+    product *= random();
+  }
+  return count;
+}
+
+/**
+ * Get the value at a percentile of a sorted array
+ */
+function percentile(sorted: number[], p: number): number {
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.floor(p * sorted.length)));
+  return sorted[index];
+}
+
+/**
+ * Forecast the end-of-period uptime of one component
+ *
+ * @param allIncidents - All incidents
+ * @param componentName - Component to forecast
+ * @param startDate - Period start
+ * @param endDate - Period end
+ * @param periodLabel - Period label (e.g. "2025-Q1")
+ * @param options - Calculation options plus simulation count, history window and seed
+ */
+export function forecastPeriodUptime(
+  allIncidents: IncidentEntry[],
+  componentName: string,
+  startDate: Date,
+  endDate: Date,
+  periodLabel: string,
+  options: ForecastOptions = {}
+): UptimeForecast {
+  const {
+    mode = 'incident-impact',
+    profile = 'current',
+    simulations = DEFAULT_SIMULATIONS,
+    historyDays = DEFAULT_HISTORY_DAYS,
+    seed = 1,
+  } = options;
+  const definition = resolveSLADefinition(options, startDate);
+  const { asOf = pinToNow(allIncidents) } = options;
+  const targetPercentage = definition.target;
+  const lowerTierPercentage = getLowestTierThreshold(definition);
+  const incidents = ensureSnapshot(allIncidents, asOf)
+    .filter(incident => incident.data.components?.some(c => incidentComponentMatches(c, componentName)));
+
+  const intervalsByIncident = incidents.map(incident => ({
+    incident,
+    intervals: getComponentDowntimeIntervals(incident, componentName, mode, profile, asOf),
+  }));
+
+  // Downtime already recorded this period (ongoing incidents count up to asOf)
+  const elapsedEnd = new Date(Math.min(Math.max(asOf.getTime(), startDate.getTime()), endDate.getTime()));
+  const consumedMinutes = sumWeightedDowntimeMinutes(
+    intervalsByIncident.flatMap(entry => entry.intervals),
+    startDate,
+    elapsedEnd
+  );
+  const totalMinutes = getTotalMinutes(startDate, endDate);
+  const remainingMinutes = getTotalMinutes(elapsedEnd, endDate);
+
+  // Learn frequency and severity from incidents opened in the history window
+  const historyStart = new Date(asOf.getTime() - historyDays * MINUTES_PER_DAY * 60 * 1000);
+  const history = intervalsByIncident.filter(({ incident }) => {
+    const created = new Date(incident.data.created_at).getTime();
+    return created >= historyStart.getTime() && created <= asOf.getTime();
+  });
+
+  // Only count days we were actually watching, when a ledger is available
+  const observedDays = options.ledger
+    ? assessCoverage(options.ledger, historyStart, asOf, asOf).observedMinutes / MINUTES_PER_DAY
+    : historyDays;
+
+  const samples = history.map(({ incident, intervals }) => ({
+    impact: incident.data.impact,
+    durationMinutes: intervals.length > 0
+      ? (Math.max(...intervals.map(i => i.end)) - Math.min(...intervals.map(i => i.start))) / (60 * 1000)
+      : 0,
+    weightedMinutes: sumWeightedDowntimeMinutes(
+      intervals,
+      new Date(Math.min(...intervals.map(i => i.start), asOf.getTime())),
+      new Date(Math.max(...intervals.map(i => i.end), asOf.getTime()))
+    ),
+  }));
+
+  const incidentsPerDay = observedDays > 0 ? samples.length / observedDays : 0;
+  const expectedIncidents = incidentsPerDay * remainingMinutes / MINUTES_PER_DAY;
+
+  const impactMix: Record<string, number> = {};
+  for (const sample of samples) {
+    impactMix[sample.impact] = (impactMix[sample.impact] ?? 0) + 1 / samples.length;
+  }
+
+  // Simulate the rest of the period
+  const random = createRandom(hashSeed(`${componentName}|${periodLabel}`, seed));
+  const outcomes: number[] = [];
+
+  for (let run = 0; run < simulations; run++) {
+    let downtime = consumedMinutes;
+    const newIncidents = samples.length > 0 ? samplePoisson(expectedIncidents, random) : 0;
+    let added = 0;
+    for (let i = 0; i < newIncidents; i++) {
+      added += samples[Math.floor(random() * samples.length)].weightedMinutes;
+    }
+    // New downtime cannot exceed the time left in the period
+    downtime += Math.min(added, remainingMinutes);
+    outcomes.push(((totalMinutes - Math.min(downtime, totalMinutes)) / totalMinutes) * 100);
+  }
+
+  outcomes.sort((a, b) => a - b);
+  const round = (value: number) => parseFloat(value.toFixed(4));
+  const mean = (values: number[]) => values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+
+  return {
+    componentName,
+    periodLabel,
+    targetPercentage,
+    lowerTierPercentage,
+    consumedMinutes,
+    remainingMinutes,
+    expectedIncidents,
+    simulations,
+    medianUptime: round(percentile(outcomes, 0.5)),
+    p10Uptime: round(percentile(outcomes, 0.1)),
+    p90Uptime: round(percentile(outcomes, 0.9)),
+    probabilityBelowTarget: outcomes.filter(uptime => uptime < targetPercentage).length / simulations,
+    probabilityBelowLowerTier: outcomes.filter(uptime => uptime < lowerTierPercentage).length / simulations,
+    model: {
+      historyDays: observedDays,
+      incidentCount: samples.length,
+      incidentsPerDay,
+      impactMix,
+      meanDurationMinutes: mean(samples.map(s => s.durationMinutes)),
+      meanWeightedMinutes: mean(samples.map(s => s.weightedMinutes)),
+    },
+  };
+}
+
+/**
+ * Forecast the current month and quarter (those containing `options.asOf`) for one component
+ */
+export function forecastComponent(
+  incidents: IncidentEntry[],
+  componentName: string,
+  options: ForecastOptions = {}
+): ComponentForecast {
+  const asOf = options.asOf ?? new Date();
+  const quarterInfo = getQuarterInfo(asOf.getFullYear(), getQuarter(asOf));
+  const monthInfo = getMonthInfo(asOf.getFullYear(), (asOf.getMonth() + 1) as Month);
+
+  return {
+    componentName,
+    month: forecastPeriodUptime(incidents, componentName, monthInfo.startDate, monthInfo.endDate, monthInfo.label, options),
+    quarter: forecastPeriodUptime(incidents, componentName, quarterInfo.startDate, quarterInfo.endDate, quarterInfo.label, options),
+  };
+}
+
+/**
+ * Forecast the current month and quarter for several components
+ */
+export function forecastComponents(
+  incidents: IncidentEntry[],
+  componentNames: string[],
+  options: ForecastOptions = {}
+): ComponentForecast[] {
+  return componentNames.map(name => forecastComponent(incidents, name, options));
+}
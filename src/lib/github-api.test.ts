@@ -0,0 +1,198 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { configureStatusClient, getComponents, getIncidents, getScheduledMaintenances } from './github-api';
+import { createFixtureTransport } from '../../scripts/status-client.js';
+
+/**
+ * Test Suite for the GitHub Status API Client
+ *
+ * Transports are scripted per test: each call returns the next queued response. Backoff sleeps
+ * resolve immediately.
+ */
+
+const INCIDENTS_BODY = {
+  incidents: [
+    {
+      id: 'abc123',
+      name: 'Incident with Actions',
+      status: 'resolved',
+      impact: 'major',
+      created_at: '2025-03-10T10:00:00Z',
+      updated_at: '2025-03-10T11:00:00Z',
+      resolved_at: '2025-03-10T11:00:00Z',
+      shortlink: 'https://stspg.io/abc123',
+      incident_updates: [
+        { id: 'u1', status: 'resolved', body: 'This incident has been resolved.', created_at: '2025-03-10T11:00:00Z' },
+      ],
+      components: [{ name: 'Actions' }],
+    },
+  ],
+};
+
+type Request = { url: string; endpoint: string; headers: Record<string, string>; signal: AbortSignal };
+
+// Helper to script a transport's responses and record its requests
+function createScriptedTransport(responses: (Response | Error | 'hang')[]) {
+  const requests: Request[] = [];
+  const transport = (request: Request): Promise<Response> => {
+    requests.push(request);
+    const next = responses.shift();
+    if (next === 'hang') {
+      return new Promise((_, reject) => request.signal.addEventListener('abort', () => reject(new Error('aborted'))));
+    }
+    if (!next) throw new Error('No more scripted responses');
+    return next instanceof Error ? Promise.reject(next) : Promise.resolve(next);
+  };
+  return { transport, requests };
+}
+
+const json = (body: unknown, status: number = 200, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), { status, headers });
+
+const sleep = vi.fn(async () => {});
+
+describe('GitHub Status API Client Tests', () => {
+  beforeEach(() => {
+    sleep.mockClear();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('GIVEN transient failures', () => {
+    it('WHEN the API answers 503 and then drops the connection THEN the request is retried until it succeeds', async () => {
+      // Given
+      const { transport, requests } = createScriptedTransport([
+        new Response('unavailable', { status: 503, statusText: 'Service Unavailable' }),
+        new TypeError('fetch failed'),
+        json(INCIDENTS_BODY),
+      ]);
+      configureStatusClient({ transport, sleep, random: () => 0.5, baseDelayMs: 1000 });
+
+      // When
+      const data = await getIncidents();
+
+      // Then: half of 1s then half of 2s, under full jitter
+      expect(data).toEqual(INCIDENTS_BODY);
+      expect(requests).toHaveLength(3);
+      expect(sleep.mock.calls).toEqual([[500], [1000]]);
+    });
+
+    it('WHEN an attempt times out THEN it is aborted and retried', async () => {
+      const { transport, requests } = createScriptedTransport(['hang', json(INCIDENTS_BODY)]);
+      configureStatusClient({ transport, sleep, timeoutMs: 10 });
+
+      await expect(getIncidents()).resolves.toEqual(INCIDENTS_BODY);
+      expect(requests[0].signal.aborted).toBe(true);
+    });
+
+    it('WHEN every retry fails THEN the last error is thrown', async () => {
+      const { transport, requests } = createScriptedTransport(
+        Array.from({ length: 3 }, () => new Response('', { status: 502, statusText: 'Bad Gateway' }))
+      );
+      configureStatusClient({ transport, sleep, retries: 2 });
+
+      await expect(getIncidents()).rejects.toThrow('HTTP 502: Bad Gateway');
+      expect(requests).toHaveLength(3);
+    });
+
+    it('WHEN the API is rate limiting THEN Retry-After sets the wait', async () => {
+      const { transport } = createScriptedTransport([
+        new Response('', { status: 429, headers: { 'Retry-After': '3' } }),
+        json(INCIDENTS_BODY),
+      ]);
+      configureStatusClient({ transport, sleep });
+
+      await getIncidents();
+
+      expect(sleep).toHaveBeenCalledWith(3000);
+    });
+  });
+
+  describe('GIVEN responses that will not change on retry', () => {
+    it('WHEN the API answers 404 THEN it fails without retrying', async () => {
+      const { transport, requests } = createScriptedTransport([new Response('', { status: 404, statusText: 'Not Found' })]);
+      configureStatusClient({ transport, sleep });
+
+      await expect(getIncidents()).rejects.toThrow('HTTP 404: Not Found');
+      expect(requests).toHaveLength(1);
+    });
+
+    it('WHEN a body does not match the schema THEN every problem is reported', async () => {
+      const { transport, requests } = createScriptedTransport([json({ components: [{ id: 'x', name: 'Actions' }] })]);
+      configureStatusClient({ transport, sleep });
+
+      await expect(getComponents()).rejects.toThrow(/Invalid response from components\.json: components\.0\.status: Required/);
+      expect(requests).toHaveLength(1);
+    });
+
+    it('WHEN a maintenance would not load at build time THEN it is rejected before archiving', async () => {
+      // Given: A maintenance with an unknown status and no impact
+      const maintenance = {
+        id: 'm1',
+        name: 'Database upgrade',
+        status: 'postponed',
+        created_at: '2025-04-03T09:00:00Z',
+        updated_at: '2025-04-03T09:00:00Z',
+        scheduled_for: '2025-04-10T10:00:00Z',
+        scheduled_until: '2025-04-10T12:00:00Z',
+        resolved_at: null,
+        shortlink: 'https://stspg.io/m1',
+        incident_updates: [],
+        components: [{ name: 'Git Operations' }],
+      };
+      const { transport } = createScriptedTransport([json({ scheduled_maintenances: [maintenance] })]);
+      configureStatusClient({ transport, sleep });
+
+      await expect(getScheduledMaintenances()).rejects.toThrow(
+        /scheduled_maintenances\.0\.status: Invalid enum value.*scheduled_maintenances\.0\.impact: Required/
+      );
+    });
+  });
+
+  describe('GIVEN a response cached with an ETag', () => {
+    it('WHEN the endpoint has not changed THEN the request is conditional and the cached body is reused', async () => {
+      // Given: the first response carries an ETag, the second is 304 Not Modified
+      const { transport, requests } = createScriptedTransport([
+        json(INCIDENTS_BODY, 200, { ETag: 'W/"v1"', 'Last-Modified': 'Mon, 10 Mar 2025 11:00:00 GMT' }),
+        new Response(null, { status: 304 }),
+      ]);
+      configureStatusClient({ transport, sleep });
+
+      // When
+      await getIncidents();
+      const data = await getIncidents();
+
+      // Then
+      expect(requests[0].headers['If-None-Match']).toBeUndefined();
+      expect(requests[1].headers['If-None-Match']).toBe('W/"v1"');
+      expect(requests[1].headers['If-Modified-Since']).toBe('Mon, 10 Mar 2025 11:00:00 GMT');
+      expect(data).toEqual(INCIDENTS_BODY);
+    });
+  });
+
+  describe('GIVEN recorded fixtures', () => {
+    let fixtureDir: string;
+
+    beforeEach(() => {
+      fixtureDir = fs.mkdtempSync(path.join(os.tmpdir(), 'status-fixtures-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(fixtureDir, { recursive: true, force: true });
+    });
+
+    it('WHEN replaying them THEN recorded endpoints answer and others are 404', async () => {
+      fs.writeFileSync(path.join(fixtureDir, 'incidents.json'), JSON.stringify(INCIDENTS_BODY));
+      configureStatusClient({ transport: createFixtureTransport(fixtureDir), sleep });
+
+      await expect(getIncidents()).resolves.toEqual(INCIDENTS_BODY);
+      await expect(getComponents()).rejects.toThrow('HTTP 404');
+    });
+  });
+});
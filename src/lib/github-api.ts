@@ -3,6 +3,12 @@
  * Type-safe client for fetching data from GitHub Status API
  */
 
+import {
+  createMemoryCache,
+  createStatusClient,
+  type StatusClientOptions,
+} from '../../scripts/status-client.js';
+
 export interface GitHubStatusComponent {
   id: string;
   name: string;
@@ -38,6 +44,25 @@ export interface GitHubStatusIncident {
   postmortem_body_last_updated_at?: string | null;
 }
 
+export interface GitHubStatusScheduledMaintenance {
+  id: string;
+  name: string;
+  status: 'scheduled' | 'in_progress' | 'verifying' | 'completed';
+  impact: 'none' | 'minor' | 'major' | 'critical' | 'maintenance';
+  created_at: string;
+  updated_at: string;
+  monitoring_at?: string | null;
+  resolved_at: string | null;
+  shortlink: string;
+  started_at: string | null;
+  page_id: string;
+  incident_updates: IncidentUpdate[];
+  components: GitHubStatusComponent[];
+  // Planned window, announced in advance
+  scheduled_for: string;
+  scheduled_until: string;
+}
+
 export interface IncidentUpdate {
   id: string;
   status: string;
@@ -74,25 +99,26 @@ export interface GitHubStatusSummary {
   };
   components: GitHubStatusComponent[];
   incidents: GitHubStatusIncident[];
-  scheduled_maintenances: any[];
+  scheduled_maintenances: GitHubStatusScheduledMaintenance[];
 }
 
-const API_BASE = 'https://www.githubstatus.com/api/v2';
+// Shared with the fetch script: timeouts, retries with backoff, conditional requests and validation
+let client = createStatusClient({ cache: createMemoryCache() });
+
+/**
+ * Replace the client's options, e.g. a fixture transport for tests or offline runs
+ * Responses cached by the previous client are dropped
+ */
+export function configureStatusClient(options: StatusClientOptions = {}): void {
+  client = createStatusClient({ cache: createMemoryCache(), ...options });
+}
 
 /**
  * Fetch data from GitHub Status API
  */
 async function fetchGitHubStatus<T>(endpoint: string): Promise<T> {
-  const url = `${API_BASE}/${endpoint}`;
-
   try {
-    const response = await fetch(url);
-
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-    }
-
-    return await response.json();
+    return await client.get(endpoint);
   } catch (error) {
     console.error(`Error fetching ${endpoint}:`, error);
     throw error;
@@ -127,6 +153,27 @@ export async function getUnresolvedIncidents(): Promise<{ incidents: GitHubStatu
   return fetchGitHubStatus<{ incidents: GitHubStatusIncident[] }>('incidents/unresolved.json');
 }
 
+/**
+ * Get all scheduled maintenances (50 most recent)
+ */
+export async function getScheduledMaintenances(): Promise<{ scheduled_maintenances: GitHubStatusScheduledMaintenance[] }> {
+  return fetchGitHubStatus<{ scheduled_maintenances: GitHubStatusScheduledMaintenance[] }>('scheduled-maintenances.json');
+}
+
+/**
+ * Get scheduled maintenances that have not started yet
+ */
+export async function getUpcomingMaintenances(): Promise<{ scheduled_maintenances: GitHubStatusScheduledMaintenance[] }> {
+  return fetchGitHubStatus<{ scheduled_maintenances: GitHubStatusScheduledMaintenance[] }>('scheduled-maintenances/upcoming.json');
+}
+
+/**
+ * Get scheduled maintenances in progress or verifying
+ */
+export async function getActiveMaintenances(): Promise<{ scheduled_maintenances: GitHubStatusScheduledMaintenance[] }> {
+  return fetchGitHubStatus<{ scheduled_maintenances: GitHubStatusScheduledMaintenance[] }>('scheduled-maintenances/active.json');
+}
+
 /**
  * Get current status indicator
  */
@@ -0,0 +1,111 @@
+/**
+ * Impact Weighting Profiles
+ * Named sets of downtime multipliers used to turn incident impact into weighted downtime
+ *
+ * The public Status API does not expose error rates, so every uptime number depends on
+ * how much of an incident's duration we count as downtime. Profiles make that assumption
+ * explicit and let us compare outcomes under several of them.
+ */
+
+export type ImpactProfileName = 'current' | 'conservative' | 'lenient';
+
+export interface ImpactProfile {
+  name: ImpactProfileName;
+  label: string;
+  description: string;
+  // Multipliers keyed by incident impact (none, minor, major, critical, maintenance)
+  impactMultipliers: Record<string, number>;
+  // Multipliers keyed by component status (operational, degraded_performance, ...)
+  statusMultipliers: Record<string, number>;
+  // Used for impacts or statuses not listed above
+  defaultMultiplier: number;
+}
+
+export const IMPACT_PROFILES: Record<ImpactProfileName, ImpactProfile> = {
+  current: {
+    name: 'current',
+    label: 'Current',
+    description: 'Partial weighting by severity: minor 25%, major 75%, critical 100%',
+    impactMultipliers: {
+      'none': 0,
+      'minor': 0.25,     // Partial degradation
+      'major': 0.75,     // Significant issues
+      'critical': 1.0,   // Complete outage
+      'maintenance': 0,  // Scheduled maintenance (no SLA impact)
+    },
+    statusMultipliers: {
+      'operational': 0,
+      'degraded_performance': 0.25,
+      'partial_outage': 0.75,
+      'major_outage': 1.0,
+      'under_maintenance': 0,
+    },
+    defaultMultiplier: 0.5,
+  },
+  conservative: {
+    name: 'conservative',
+    label: 'Conservative',
+    description: 'Any incident counts as full downtime for its whole duration',
+    impactMultipliers: {
+      'none': 1.0,
+      'minor': 1.0,
+      'major': 1.0,
+      'critical': 1.0,
+      'maintenance': 0,
+    },
+    statusMultipliers: {
+      'operational': 0,
+      'degraded_performance': 1.0,
+      'partial_outage': 1.0,
+      'major_outage': 1.0,
+      'under_maintenance': 0,
+    },
+    defaultMultiplier: 1.0,
+  },
+  lenient: {
+    name: 'lenient',
+    label: 'Lenient',
+    description: 'Only critical incidents (major outages) count as downtime',
+    impactMultipliers: {
+      'none': 0,
+      'minor': 0,
+      'major': 0,
+      'critical': 1.0,
+      'maintenance': 0,
+    },
+    statusMultipliers: {
+      'operational': 0,
+      'degraded_performance': 0,
+      'partial_outage': 0,
+      'major_outage': 1.0,
+      'under_maintenance': 0,
+    },
+    defaultMultiplier: 0,
+  },
+};
+
+export const IMPACT_PROFILE_NAMES = Object.keys(IMPACT_PROFILES) as ImpactProfileName[];
+
+/**
+ * Get a weighting profile by name
+ */
+export function getImpactProfile(name: ImpactProfileName): ImpactProfile {
+  return IMPACT_PROFILES[name];
+}
+
+/**
+ * Get multiplier for an incident impact under a profile
+ */
+export function getProfileImpactMultiplier(impact: string, profile: ImpactProfileName = 'current'): number {
+  const { impactMultipliers, defaultMultiplier } = getImpactProfile(profile);
+  // Use nullish coalescing to handle 0 values correctly
+  return impactMultipliers[impact] ?? defaultMultiplier;
+}
+
+/**
+ * Get multiplier for a component status under a profile
+ */
+export function getProfileStatusMultiplier(status: string, profile: ImpactProfileName = 'current'): number {
+  const { statusMultipliers, defaultMultiplier } = getImpactProfile(profile);
+  return statusMultipliers[status] ?? defaultMultiplier;
+}
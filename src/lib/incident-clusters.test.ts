@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { clusterIncidents, getClusterIds, getIncidentWords, getTextSimilarity } from './incident-clusters';
+import { calculateQuarterData, getIncidentEndTime } from './sla-calculator';
+import { createIncident } from './test-fixtures';
+import type { CollectionEntry } from 'astro:content';
+
+/**
+ * Test Suite for Incident Clustering
+ *
+ * Incidents that overlap in time and share a component or similar wording
+ * form one family; relations chain transitively.
+ */
+
+const AS_OF = new Date('2025-10-01T00:00:00Z');
+
+const cluster = (incidents: CollectionEntry<'incidents'>[]) =>
+  clusterIncidents(incidents, incident => getIncidentEndTime(incident, AS_OF));
+
+describe('Incident Clustering Tests', () => {
+  describe('GIVEN incident text', () => {
+    it('WHEN extracting words THEN status-update boilerplate is ignored', () => {
+      const words = getIncidentWords(createIncident('a', '2025-05-01T10:00:00Z', 60, ['Actions'], { text: 'We are investigating delayed webhook deliveries.' }));
+
+      expect([...words].sort()).toEqual(['actions', 'delayed', 'deliveries', 'webhook']);
+    });
+
+    it('WHEN comparing word sets THEN similarity is the Jaccard index', () => {
+      expect(getTextSimilarity(new Set(['a', 'b', 'c']), new Set(['b', 'c', 'd']))).toBe(0.5);
+      expect(getTextSimilarity(new Set(), new Set())).toBe(0);
+    });
+  });
+
+  describe('GIVEN overlapping incidents', () => {
+    it('WHEN they describe the same problem on different components THEN they form one family', () => {
+      // Given: Separate Actions and Pages incidents about the same runner outage
+      const incidents = [
+        createIncident('actions', '2025-05-01T10:00:00Z', 90, ['Actions'], { text: 'Hosted runners fail to start jobs in the East US region.' }),
+        createIncident('pages', '2025-05-01T10:20:00Z', 60, ['Pages'], { text: 'Pages builds fail because hosted runners fail to start jobs.' }),
+      ];
+
+      const clusters = cluster(incidents);
+
+      // Then: One family spanning both, covering 10:00-11:30
+      expect(clusters).toHaveLength(1);
+      expect(clusters[0]).toMatchObject({ id: 'actions', combinedDurationMinutes: 90, componentNames: ['Actions', 'Pages'] });
+    });
+
+    it('WHEN they share a component THEN they form one family despite different text', () => {
+      const incidents = [
+        createIncident('a', '2025-05-01T10:00:00Z', 60, ['Git Operations'], { text: 'Pushes are slow.' }),
+        createIncident('b', '2025-05-01T11:10:00Z', 30, ['Git Operations and Codespaces'], { text: 'Clones time out.' }),
+      ];
+
+      // Then: The 10-minute gap is within the allowed 30
+      expect(cluster(incidents)).toHaveLength(1);
+    });
+
+    it('WHEN they are unrelated THEN each stays alone', () => {
+      const incidents = [
+        createIncident('a', '2025-05-01T10:00:00Z', 60, ['Issues'], { text: 'Issue comments fail to load.' }),
+        createIncident('b', '2025-05-01T10:30:00Z', 60, ['Packages'], { text: 'Container registry pulls return 500 errors.' }),
+      ];
+
+      expect(cluster(incidents).map(c => c.id)).toEqual(['a', 'b']);
+    });
+
+    it('WHEN relations chain THEN the whole chain is one family named after its earliest incident', () => {
+      // Given: a~b share Actions, b~c share Pages; a and c are unrelated
+      const incidents = [
+        createIncident('c', '2025-05-01T11:00:00Z', 60, ['Pages'], { text: 'Site deploys stall.' }),
+        createIncident('a', '2025-05-01T10:00:00Z', 90, ['Actions'], { text: 'Workflow runs queue.' }),
+        createIncident('b', '2025-05-01T10:30:00Z', 45, ['Actions', 'Pages'], { text: 'Jobs are delayed.' }),
+      ];
+
+      const ids = getClusterIds(cluster(incidents));
+
+      expect([...ids.entries()]).toEqual([['a', 'a'], ['b', 'a'], ['c', 'a']]);
+    });
+  });
+
+  describe('GIVEN quarter statistics', () => {
+    it('WHEN a quarter has related incidents THEN the deduplicated count counts each family once', () => {
+      const incidents = [
+        createIncident('a', '2025-05-01T10:00:00Z', 60, ['Actions']),
+        createIncident('b', '2025-05-01T10:15:00Z', 60, ['Actions']),
+        createIncident('c', '2025-06-01T10:00:00Z', 60, ['Issues']),
+      ];
+
+      const quarterData = calculateQuarterData(incidents, 2025, 2, { asOf: AS_OF });
+
+      expect(quarterData.totalIncidents).toBe(3);
+      expect(quarterData.deduplicatedIncidents).toBe(2);
+      expect(quarterData.incidentClusters.map(c => c.incidents.length)).toEqual([2, 1]);
+    });
+  });
+});
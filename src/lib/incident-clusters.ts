@@ -0,0 +1,166 @@
+/**
+ * Incident Clusters
+ * Groups incidents GitHub opened separately for one underlying problem into "incident families"
+ *
+ * Two incidents are related when they overlap in time (allowing a short gap) and either share a
+ * component or describe the problem in similar words. Similarity is the Jaccard index of the
+ * distinctive words in their names and updates; words every status update uses ("investigating",
+ * "mitigated", month names, ...) are ignored. Relations are transitive: a family is every
+ * incident reachable through them.
+ */
+
+import type { CollectionEntry } from 'astro:content';
+import { getDurationMinutes } from './date-utils';
+
+// Type for incident entries from content collections
+type IncidentEntry = CollectionEntry<'incidents'>;
+
+export interface ClusterOptions {
+  // Gap between one incident ending and the next starting that still counts as overlap
+  maxGapMinutes: number;
+  // Word similarity (0-1) that relates incidents without a shared component
+  minSimilarity: number;
+}
+
+export const DEFAULT_CLUSTER_OPTIONS: ClusterOptions = {
+  maxGapMinutes: 30,
+  minSimilarity: 0.2,
+};
+
+/**
+ * A family of related incidents
+ */
+export interface IncidentCluster {
+  // Id of the earliest incident, stable as long as that incident stays in the family
+  id: string;
+  incidents: IncidentEntry[]; // Oldest first
+  start: Date;
+  end: Date;
+  // Time covered by at least one incident of the family
+  combinedDurationMinutes: number;
+  componentNames: string[];
+}
+
+// Words too common in status updates to tell incidents apart
+const COMMON_WORDS = new Set([
+  'about', 'after', 'again', 'also', 'and', 'any', 'approximately', 'are', 'available', 'been', 'before',
+  'began', 'being', 'between', 'but', 'can', 'cause', 'caused', 'continue', 'continuing', 'could',
+  'currently', 'customers', 'degraded', 'degradation', 'due', 'during', 'experienced', 'experiencing',
+  'for', 'from', 'fully', 'further', 'future', 'github', 'had', 'has', 'have', 'impact', 'impacted',
+  'impacting', 'improve', 'incident', 'into', 'investigate', 'investigating', 'issue', 'issues', 'its',
+  'may', 'minutes', 'mitigate', 'mitigated', 'mitigating', 'mitigation', 'monitoring', 'more', 'normal',
+  'normally', 'not', 'our', 'patience', 'performance', 'period', 'prevent', 'progress', 'recovered',
+  'recovery', 'recurrence', 'reduce', 'reports', 'resolved', 'result', 'resulted', 'resulting',
+  'seeing', 'service', 'services', 'similar', 'some', 'status', 'than', 'thank', 'that', 'the',
+  'their', 'them', 'there', 'these', 'they', 'this', 'time', 'update', 'updates', 'users', 'utc',
+  'was', 'were', 'what', 'when', 'which', 'while', 'will', 'with', 'within', 'work', 'working',
+  'would', 'you', 'your',
+  'january', 'february', 'march', 'april', 'june', 'july', 'august', 'september', 'october',
+  'november', 'december',
+]);
+
+/**
+ * Get the distinctive words of an incident's name and updates
+ */
+export function getIncidentWords(incident: IncidentEntry): Set<string> {
+  const text = [incident.data.name, ...incident.data.incident_updates.map(update => update.body)]
+    .join(' ')
+    .toLowerCase();
+  return new Set((text.match(/[a-z][a-z0-9-]{2,}/g) ?? []).filter(word => !COMMON_WORDS.has(word)));
+}
+
+/**
+ * Jaccard similarity of two word sets (0-1)
+ */
+export function getTextSimilarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 0;
+  let shared = 0;
+  for (const word of a) {
+    if (b.has(word)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Group incidents into families of related incidents
+ * @param getEndTime - End of an incident (see getIncidentEndTime)
+ * @returns Every incident in exactly one cluster, oldest cluster first
+ */
+export function clusterIncidents(
+  incidents: IncidentEntry[],
+  getEndTime: (incident: IncidentEntry) => Date,
+  options: ClusterOptions = DEFAULT_CLUSTER_OPTIONS
+): IncidentCluster[] {
+  const items = incidents
+    .map(incident => ({
+      incident,
+      start: new Date(incident.data.started_at || incident.data.created_at).getTime(),
+      end: getEndTime(incident).getTime(),
+      componentIds: new Set((incident.data.components ?? []).flatMap(c => c.componentIds)),
+      words: getIncidentWords(incident),
+    }))
+    .sort((a, b) => a.start - b.start || a.incident.data.id.localeCompare(b.incident.data.id));
+
+  // Union-find over item indices
+  const parent = items.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+  const union = (a: number, b: number) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    // Keep the earliest incident as the root so it names the cluster
+    if (rootA !== rootB) parent[Math.max(rootA, rootB)] = Math.min(rootA, rootB);
+  };
+
+  const maxGap = options.maxGapMinutes * 60 * 1000;
+  for (let i = 0; i < items.length; i++) {
+    // Items are sorted by start, so later ones can only overlap while they start before this ends
+    for (let j = i + 1; j < items.length && items[j].start <= items[i].end + maxGap; j++) {
+      const sharesComponent = [...items[i].componentIds].some(id => items[j].componentIds.has(id));
+      if (sharesComponent || getTextSimilarity(items[i].words, items[j].words) >= options.minSimilarity) {
+        union(i, j);
+      }
+    }
+  }
+
+  const groups = new Map<number, typeof items>();
+  items.forEach((item, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) ?? []), item]);
+  });
+
+  return [...groups.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([, members]) => {
+      let combinedMs = 0;
+      let coveredUntil = -Infinity;
+      for (const member of members) {
+        const from = Math.max(member.start, coveredUntil);
+        if (member.end > from) combinedMs += member.end - from;
+        coveredUntil = Math.max(coveredUntil, member.end);
+      }
+
+      const start = members[0].start;
+      const end = Math.max(...members.map(member => member.end));
+      return {
+        id: members[0].incident.data.id,
+        incidents: members.map(member => member.incident),
+        start: new Date(start),
+        end: new Date(end),
+        combinedDurationMinutes: getDurationMinutes(new Date(0), new Date(combinedMs)),
+        componentNames: [...new Set(members.flatMap(member => (member.incident.data.components ?? []).map(c => c.name)))],
+      };
+    });
+}
+
+/**
+ * Map each incident id to the id of its cluster
+ */
+export function getClusterIds(clusters: IncidentCluster[]): Map<string, string> {
+  return new Map(clusters.flatMap(cluster => cluster.incidents.map(incident => [incident.data.id, cluster.id])));
+}
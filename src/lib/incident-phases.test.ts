@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import { getIncidentPhases, getPhaseTotals, getUpdatePhase } from './incident-phases';
+import { getIncidentsWithDurations } from './sla-calculator';
+import { createIncident } from './test-fixtures';
+
+/**
+ * Test Suite for Incident Phases
+ *
+ * Updates with an investigating, identified or monitoring status start a phase;
+ * other statuses are progress notes that keep the current one, unless a scraped
+ * "update" names a later phase in its text.
+ */
+
+const START = '2025-05-01T10:00:00Z';
+
+// Helper to get the timestamp a number of minutes after the incident start
+const at = (minutes: number) => new Date(new Date(START).getTime() + minutes * 60 * 1000).toISOString();
+
+// Helper to create an incident from [id, status, minutes after start] updates
+function createUpdatedIncident(updates: [string, string, number][]) {
+  const resolved = updates.find(([, status]) => status === 'resolved');
+  return createIncident('test', START, resolved?.[2] ?? 0, ['Git Operations'], {
+    name: 'Test incident',
+    status: resolved ? 'resolved' : 'investigating',
+    impact: 'major',
+    resolved_at: resolved ? at(resolved[2]) : null,
+    incident_updates: updates.map(([id, status, minutes]) => ({
+      id, status, body: `${status} at ${minutes}`, created_at: at(minutes),
+    })),
+  });
+}
+
+describe('Incident Phases Tests', () => {
+  describe('GIVEN an incident from the status API', () => {
+    it('WHEN it goes through every status THEN each phase lasts until the next transition', () => {
+      const incident = createUpdatedIncident([
+        ['a', 'investigating', 0],
+        ['b', 'identified', 20],
+        ['c', 'monitoring', 50],
+        ['d', 'resolved', 100],
+      ]);
+
+      const phases = getIncidentPhases(incident, new Date(at(100)));
+
+      expect(phases.map(p => [p.phase, p.durationMinutes, p.share])).toEqual([
+        ['investigating', 20, 0.2],
+        ['identified', 30, 0.3],
+        ['monitoring', 50, 0.5],
+      ]);
+      expect(phases[1].transitionUpdate?.body).toBe('identified at 20');
+    });
+
+    it('WHEN a fix fails THEN the incident returns to investigating', () => {
+      const incident = createUpdatedIncident([
+        ['a', 'investigating', 0],
+        ['b', 'monitoring', 30],
+        ['c', 'investigating', 40],
+        ['d', 'resolved', 60],
+      ]);
+
+      const phases = getIncidentPhases(incident, new Date(at(60)));
+
+      expect(phases.map(p => p.phase)).toEqual(['investigating', 'monitoring', 'investigating']);
+      expect(getPhaseTotals(phases)).toEqual({ investigating: 50, identified: 0, monitoring: 10 });
+    });
+
+    it('WHEN the incident is ongoing THEN the last phase runs until the end time', () => {
+      const incident = createUpdatedIncident([['a', 'investigating', 0], ['b', 'identified', 15]]);
+
+      const phases = getIncidentPhases(incident, new Date(at(45)));
+
+      expect(phases[phases.length - 1]).toMatchObject({ phase: 'identified', durationMinutes: 30, end: at(45) });
+    });
+  });
+
+  describe('GIVEN an incident scraped from the history pages', () => {
+    it('WHEN it has "update" statuses numbered newest first THEN they keep the current phase', () => {
+      // Given: update_0 is the newest entry, as the scraper numbers them
+      const incident = createUpdatedIncident([
+        ['update_0', 'resolved', 90],
+        ['update_1', 'update', 60],
+        ['update_2', 'monitoring', 45],
+        ['update_3', 'update', 10],
+        ['update_4', 'investigating', 0],
+      ]);
+
+      const phases = getIncidentPhases(incident, new Date(at(90)));
+
+      expect(phases.map(p => [p.phase, p.durationMinutes])).toEqual([
+        ['investigating', 45],
+        ['monitoring', 45],
+      ]);
+      expect(phases[0].transitionUpdate?.body).toBe('investigating at 0');
+    });
+
+    it('WHEN its "update" notes describe the cause and the fix THEN those phases are inferred', () => {
+      // Given: Only investigating, update and resolved, as on the history pages
+      const incident = createUpdatedIncident([
+        ['update_0', 'resolved', 90],
+        ['update_1', 'update', 60],
+        ['update_2', 'update', 45],
+        ['update_3', 'update', 20],
+        ['update_4', 'investigating', 0],
+      ]);
+      incident.data.incident_updates[3].body = 'We have identified the source of the issue.';
+      incident.data.incident_updates[2].body = 'A fix has been deployed and we are monitoring.';
+      incident.data.incident_updates[1].body = 'We are continuing to investigate.';
+
+      const phases = getIncidentPhases(incident, new Date(at(90)));
+
+      // Then: "Continuing to investigate" does not move the incident back
+      expect(phases.map(p => [p.phase, p.durationMinutes, p.inferred])).toEqual([
+        ['investigating', 20, false],
+        ['identified', 25, true],
+        ['monitoring', 45, true],
+      ]);
+    });
+  });
+
+  describe('GIVEN the text of a progress note', () => {
+    it('WHEN it names a phase THEN that phase is inferred', () => {
+      expect(getUpdatePhase({ status: 'update', body: 'We identified the issue and applied the mitigation.' }))
+        .toEqual({ phase: 'monitoring', inferred: true });
+      expect(getUpdatePhase({ status: 'update', body: 'We are reverting a change that introduced these failures.' }))
+        .toEqual({ phase: 'identified', inferred: true });
+    });
+
+    it('WHEN it does not name a phase THEN nothing is inferred', () => {
+      expect(getUpdatePhase({ status: 'update', body: 'Pages is experiencing degraded performance.' })).toBeNull();
+      expect(getUpdatePhase({ status: 'update', body: 'The cause has not yet been identified.' })).toBeNull();
+      expect(getUpdatePhase({ status: 'postmortem', body: 'We identified the root cause.' })).toBeNull();
+    });
+  });
+
+  describe('GIVEN incidents with durations', () => {
+    it('WHEN calculating durations THEN each incident carries its phases', () => {
+      const incident = createUpdatedIncident([['a', 'investigating', 0], ['b', 'monitoring', 30], ['c', 'resolved', 40]]);
+
+      const [result] = getIncidentsWithDurations([incident], new Date('2025-06-01T00:00:00Z'));
+
+      expect(result.durationMinutes).toBe(40);
+      expect(result.phases.map(p => p.phase)).toEqual(['investigating', 'monitoring']);
+    });
+  });
+});
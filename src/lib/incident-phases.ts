@@ -0,0 +1,144 @@
+/**
+ * Incident Phases
+ * Splits an incident's duration into the time spent investigating, identified and monitoring,
+ * following the status of its updates
+ *
+ * An update with one of those statuses starts that phase; "resolved" ends the incident. Any other
+ * status ("update" on scraped history pages, "postmortem") is a progress note and keeps the
+ * current phase. Incidents can move back, e.g. from monitoring to investigating when a fix fails.
+ *
+ * Scraped history pages only record investigating, update and resolved, so the phase of an
+ * "update" is inferred from its text ("identified the cause", "a fix has been deployed"). Inferred
+ * phases only move an incident forward, since "continuing to investigate" is also said while a
+ * fix is rolling out.
+ */
+
+import type { CollectionEntry } from 'astro:content';
+import { getDurationMinutes } from './date-utils';
+
+// Type for incident entries from content collections
+type IncidentEntry = CollectionEntry<'incidents'>;
+
+export const INCIDENT_PHASES = ['investigating', 'identified', 'monitoring'] as const;
+
+export type IncidentPhaseName = typeof INCIDENT_PHASES[number];
+
+/**
+ * One stretch of an incident spent in a single phase
+ */
+export interface IncidentPhase {
+  phase: IncidentPhaseName;
+  start: string;
+  end: string;
+  durationMinutes: number;
+  share: number; // 0-1 of the incident duration
+  // Text of the update that moved the incident into this phase (none for the initial phase
+  // when the incident started before its first update)
+  transitionUpdate: { status: string; body: string; created_at: string } | null;
+  inferred: boolean; // Phase read from the text of a progress note rather than its status
+}
+
+interface IncidentUpdate {
+  status: string;
+  body: string;
+}
+
+// Wording of progress notes, checked in order: a fix going out means the cause was found too
+const INFERRED_PHASE_PATTERNS: [IncidentPhaseName, RegExp][] = [
+  ['monitoring', /\b(monitoring|seeing (partial |signs of |full )?recovery|(fix|mitigation) (has been|was|is being) (deployed|applied|rolled out)|(deployed|applied|rolled out) (a|the) (fix|mitigation))\b/i],
+  ['identified', /\b(identified|root cause|cause of the (issue|problem)|reverting|rolling back|work(ing)? (on|to) (a |the )?(fix|mitigat\w*))\b/i],
+];
+
+// "We have not yet identified the cause" is still investigating
+const NEGATED_PHASE_PATTERN = /\bnot (yet )?(been )?identified\b/i;
+
+function isPhaseName(status: string): status is IncidentPhaseName {
+  return (INCIDENT_PHASES as readonly string[]).includes(status);
+}
+
+/**
+ * Get the phase an update moves its incident into
+ * Progress notes ("update") are read for wording that names a phase; others return null
+ */
+export function getUpdatePhase(update: IncidentUpdate): { phase: IncidentPhaseName; inferred: boolean } | null {
+  const status = update.status.trim().toLowerCase();
+  if (isPhaseName(status)) {
+    return { phase: status, inferred: false };
+  }
+  if (status !== 'update' || NEGATED_PHASE_PATTERN.test(update.body)) {
+    return null;
+  }
+  const match = INFERRED_PHASE_PATTERNS.find(([, pattern]) => pattern.test(update.body));
+  return match ? { phase: match[0], inferred: true } : null;
+}
+
+/**
+ * Split an incident into consecutive phases, from its start to `endTime`
+ * @param endTime - End of the incident (see getIncidentEndTime)
+ */
+export function getIncidentPhases(incident: IncidentEntry, endTime: Date): IncidentPhase[] {
+  const start = new Date(incident.data.started_at || incident.data.created_at).getTime();
+  const end = Math.max(start, endTime.getTime());
+
+  // Scraped updates are numbered newest first, so order by time
+  const updates = incident.data.incident_updates
+    .filter(update => !isNaN(new Date(update.created_at).getTime()))
+    .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+
+  const stretches: {
+    phase: IncidentPhaseName;
+    start: number;
+    update: IncidentPhase['transitionUpdate'];
+    inferred: boolean;
+  }[] = [
+    { phase: 'investigating', start, update: null, inferred: false },
+  ];
+
+  for (const update of updates) {
+    const status = update.status.trim().toLowerCase();
+    const time = Math.min(Math.max(new Date(update.created_at).getTime(), start), end);
+    if (status === 'resolved') break;
+    const next = getUpdatePhase(update);
+    if (!next) continue;
+
+    const current = stretches[stretches.length - 1];
+    const { phase, inferred } = next;
+    if (inferred && INCIDENT_PHASES.indexOf(phase) <= INCIDENT_PHASES.indexOf(current.phase)) continue;
+
+    const transitionUpdate = { status, body: update.body, created_at: update.created_at };
+    if (time === current.start) {
+      // The first update usually restates the start; it describes the phase rather than a change
+      current.phase = phase;
+      current.update = transitionUpdate;
+      current.inferred = inferred;
+    } else if (phase !== current.phase) {
+      stretches.push({ phase, start: time, update: transitionUpdate, inferred });
+    } else {
+      current.update ??= transitionUpdate;
+    }
+  }
+
+  return stretches.map((stretch, i) => {
+    const stretchEnd = i + 1 < stretches.length ? stretches[i + 1].start : end;
+    return {
+      phase: stretch.phase,
+      start: new Date(stretch.start).toISOString(),
+      end: new Date(stretchEnd).toISOString(),
+      durationMinutes: getDurationMinutes(new Date(stretch.start), new Date(stretchEnd)),
+      share: end > start ? (stretchEnd - stretch.start) / (end - start) : 0,
+      transitionUpdate: stretch.update,
+      inferred: stretch.inferred,
+    };
+  });
+}
+
+/**
+ * Total minutes spent in each phase
+ */
+export function getPhaseTotals(phases: IncidentPhase[]): Record<IncidentPhaseName, number> {
+  const totals = Object.fromEntries(INCIDENT_PHASES.map(phase => [phase, 0])) as Record<IncidentPhaseName, number>;
+  for (const phase of phases) {
+    totals[phase.phase] += phase.durationMinutes;
+  }
+  return totals;
+}
@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+import { ensureSnapshot, resolveAsOf, snapshotIncident, snapshotIncidents } from './incident-snapshot';
+import { resolveComponentIds } from './component-registry';
+import { createIncident } from './test-fixtures';
+
+/**
+ * Test Suite for Incident Snapshots
+ *
+ * A snapshot rebuilds an incident as it was at an "as of" moment,
+ * using only the updates that had been posted by then.
+ */
+
+// Helper to create an incident whose history spans 10:00 -> 12:00
+function createIncidentWithHistory() {
+  return createIncident('snap-1', '2025-02-15T10:00:00Z', 120, ['Actions', 'Pages'], {
+    impact: 'major',
+    incident_updates: [
+      {
+        id: 'u3',
+        status: 'resolved',
+        body: 'This incident has been resolved.',
+        created_at: '2025-02-15T12:00:00Z',
+        affected_components: [
+          { code: 'a', name: 'Actions', old_status: 'major_outage', new_status: 'operational' },
+          { code: 'p', name: 'Pages', old_status: 'degraded_performance', new_status: 'operational' },
+        ],
+      },
+      {
+        id: 'u2',
+        status: 'monitoring',
+        body: 'Pages is now degraded as well.',
+        created_at: '2025-02-15T11:00:00Z',
+        affected_components: [
+          { code: 'a', name: 'Actions', old_status: 'major_outage', new_status: 'major_outage' },
+          { code: 'p', name: 'Pages', old_status: 'operational', new_status: 'degraded_performance' },
+        ],
+      },
+      {
+        id: 'u1',
+        status: 'investigating',
+        body: 'We are investigating reports of an outage for Actions.',
+        created_at: '2025-02-15T10:00:00Z',
+        affected_components: [
+          { code: 'a', name: 'Actions', old_status: 'operational', new_status: 'major_outage' },
+        ],
+      },
+    ],
+    components: [
+      { code: 'a', name: 'Actions', componentIds: resolveComponentIds('Actions') },
+      { code: 'p', name: 'Pages', componentIds: resolveComponentIds('Pages') },
+    ],
+  });
+}
+
+describe('As-Of Resolution Tests', () => {
+  it('WHEN no value is given THEN defaults to now', () => {
+    const before = Date.now();
+    expect(resolveAsOf(undefined).getTime()).toBeGreaterThanOrEqual(before);
+  });
+
+  it('WHEN an ISO string is given THEN parses it', () => {
+    expect(resolveAsOf('2025-02-15T10:30:00Z').toISOString()).toBe('2025-02-15T10:30:00.000Z');
+  });
+
+  it('WHEN the value is not a date THEN throws', () => {
+    expect(() => resolveAsOf('not-a-date')).toThrow('Invalid "as of" timestamp');
+  });
+});
+
+describe('Incident Snapshot Tests', () => {
+  describe('GIVEN an incident with a full update history', () => {
+    it('WHEN asOf is before the incident opened THEN returns null', () => {
+      expect(snapshotIncident(createIncidentWithHistory(), new Date('2025-02-15T09:00:00Z'))).toBeNull();
+    });
+
+    it('WHEN asOf is early in the incident THEN only the first update and component are visible', () => {
+      // When: Snapshot 30 minutes in
+      const snapshot = snapshotIncident(createIncidentWithHistory(), new Date('2025-02-15T10:30:00Z'))!;
+
+      // Then: Still investigating, unresolved, only Actions affected
+      expect(snapshot.data.status).toBe('investigating');
+      expect(snapshot.data.resolved_at).toBeNull();
+      expect(snapshot.data.incident_updates.map(u => u.id)).toEqual(['u1']);
+      expect(snapshot.data.components.map(c => c.name)).toEqual(['Actions']);
+    });
+
+    it('WHEN asOf is after the second update THEN the status and components reflect it', () => {
+      // When: Snapshot at 11:30
+      const snapshot = snapshotIncident(createIncidentWithHistory(), new Date('2025-02-15T11:30:00Z'))!;
+
+      // Then: Monitoring, Pages now affected, updates in chronological order
+      expect(snapshot.data.status).toBe('monitoring');
+      expect(snapshot.data.components.map(c => c.name)).toEqual(['Actions', 'Pages']);
+      expect(snapshot.data.incident_updates.map(u => u.id)).toEqual(['u1', 'u2']);
+      expect(snapshot.data.updated_at).toBe('2025-02-15T11:00:00Z');
+    });
+
+    it('WHEN asOf is after resolution THEN the incident is resolved at the resolved update time', () => {
+      const snapshot = snapshotIncident(createIncidentWithHistory(), new Date('2025-03-01T00:00:00Z'))!;
+
+      expect(snapshot.data.status).toBe('resolved');
+      expect(snapshot.data.resolved_at).toBe('2025-02-15T12:00:00Z');
+    });
+  });
+
+  describe('GIVEN scraped updates with non-standard statuses', () => {
+    it('WHEN the last visible update is "update" THEN keeps the last recognised status', () => {
+      // Given: investigating -> update (scraped)
+      const incident = createIncidentWithHistory();
+      incident.data.incident_updates = [
+        { id: 'update_1', status: 'investigating', body: '', created_at: '2025-02-15T10:00:00Z' },
+        { id: 'update_0', status: 'update', body: '', created_at: '2025-02-15T10:20:00Z' },
+      ];
+
+      // When: Snapshot after both updates
+      const snapshot = snapshotIncident(incident, new Date('2025-02-15T10:30:00Z'))!;
+
+      // Then: Status is still investigating; components are kept (no transition data)
+      expect(snapshot.data.status).toBe('investigating');
+      expect(snapshot.data.components).toHaveLength(2);
+    });
+  });
+
+  describe('GIVEN a list of incidents', () => {
+    it('WHEN snapshotting THEN drops incidents opened after asOf', () => {
+      const later = createIncidentWithHistory();
+      later.data.created_at = '2025-03-01T00:00:00Z';
+
+      const snapshots = snapshotIncidents(
+        [createIncidentWithHistory(), later],
+        new Date('2025-02-20T00:00:00Z')
+      );
+
+      expect(snapshots).toHaveLength(1);
+    });
+
+    it('WHEN ensuring a snapshot THEN each moment is rebuilt once and snapshots are not rebuilt again', () => {
+      const incidents = [createIncidentWithHistory()];
+      const asOf = new Date('2025-02-15T11:00:00Z');
+
+      const snapshot = ensureSnapshot(incidents, asOf);
+
+      expect(snapshot).not.toBe(incidents);
+      expect(ensureSnapshot(incidents, new Date(asOf))).toBe(snapshot);
+      expect(ensureSnapshot(snapshot, asOf)).toBe(snapshot);
+      expect(ensureSnapshot(snapshot, new Date('2025-02-15T10:30:00Z'))).not.toBe(snapshot);
+    });
+  });
+});
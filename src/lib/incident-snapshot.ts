@@ -0,0 +1,157 @@
+/**
+ * Incident Snapshots
+ * Rebuilds what an incident looked like at a past moment ("as of") from its update history
+ *
+ * Results computed from snapshots are reproducible: they no longer depend on when the build runs,
+ * and answer "what did the dashboard show on a given day?"
+ */
+
+import type { CollectionEntry } from 'astro:content';
+
+// Type for incident entries from content collections
+type IncidentEntry = CollectionEntry<'incidents'>;
+type IncidentStatus = IncidentEntry['data']['status'];
+
+const INCIDENT_STATUSES: readonly string[] = ['investigating', 'identified', 'monitoring', 'resolved', 'postmortem'];
+
+/**
+ * Resolve the "as of" timestamp for a calculation
+ * Accepts an ISO string (e.g. from the SLA_AS_OF environment variable); defaults to now
+ */
+export function resolveAsOf(value?: string | Date | null): Date {
+  if (!value) {
+    return new Date();
+  }
+
+  const asOf = new Date(value);
+  if (isNaN(asOf.getTime())) {
+    throw new Error(`Invalid "as of" timestamp: ${String(value)}`);
+  }
+  return asOf;
+}
+
+/**
+ * Rebuild an incident's state at a given moment
+ *
+ * - Only updates posted at or before `asOf` are kept
+ * - The incident is resolved only if a visible update says so
+ * - Affected components are those named by the visible component transitions
+ *
+ * @returns The incident as it was at `asOf`, or null if it had not been opened yet
+ */
+export function snapshotIncident(incident: IncidentEntry, asOf: Date): IncidentEntry | null {
+  const asOfTime = asOf.getTime();
+  const { data } = incident;
+
+  if (new Date(data.created_at).getTime() > asOfTime) {
+    return null;
+  }
+
+  const visibleUpdates = data.incident_updates
+    .filter(update => new Date(update.created_at).getTime() <= asOfTime)
+    .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+
+  const updatedBeforeAsOf = new Date(data.updated_at).getTime() <= asOfTime;
+
+  // Without any update history, fall back to the top-level resolution timestamps
+  let status: IncidentStatus;
+  let resolvedAt: string | null;
+
+  if (data.incident_updates.length === 0) {
+    const resolutionTime = data.resolved_at ?? (data.status === 'resolved' ? data.updated_at : null);
+    const resolvedBeforeAsOf = resolutionTime !== null && new Date(resolutionTime).getTime() <= asOfTime;
+    status = resolvedBeforeAsOf ? data.status : 'investigating';
+    resolvedAt = resolvedBeforeAsOf ? data.resolved_at : null;
+  } else {
+    const resolvedUpdate = visibleUpdates.find(update => update.status === 'resolved');
+    // Scraped updates may use statuses like "update": keep the last recognised status
+    const lastKnownStatus = [...visibleUpdates]
+      .reverse()
+      .find(update => INCIDENT_STATUSES.includes(update.status))?.status as IncidentStatus | undefined;
+
+    status = resolvedUpdate ? 'resolved' : (lastKnownStatus ?? 'investigating');
+    resolvedAt = resolvedUpdate ? resolvedUpdate.created_at : null;
+  }
+
+  // Components already named by a visible transition (scraped incidents carry no transitions)
+  const hasTransitionData = visibleUpdates.some(update => update.affected_components != null);
+  const namedComponents = new Set(
+    visibleUpdates.flatMap(update => (update.affected_components ?? []).map(c => c.name))
+  );
+  const components = hasTransitionData
+    ? data.components.filter(c => namedComponents.has(c.name))
+    : data.components;
+
+  const lastUpdate = visibleUpdates[visibleUpdates.length - 1];
+  const postmortemVisible = !data.postmortem_body_last_updated_at ||
+    new Date(data.postmortem_body_last_updated_at).getTime() <= asOfTime;
+
+  return {
+    ...incident,
+    data: {
+      ...data,
+      status,
+      resolved_at: resolvedAt,
+      monitoring_at: data.monitoring_at && new Date(data.monitoring_at).getTime() <= asOfTime
+        ? data.monitoring_at
+        : null,
+      updated_at: lastUpdate ? lastUpdate.created_at : (updatedBeforeAsOf ? data.updated_at : data.created_at),
+      incident_updates: visibleUpdates,
+      components,
+      postmortem_body: postmortemVisible ? data.postmortem_body : null,
+      postmortem_body_last_updated_at: postmortemVisible ? data.postmortem_body_last_updated_at : null,
+    },
+  };
+}
+
+// Moment each incident array stands for: set on snapshots, and on current incidents pinned to "now"
+const incidentMoments = new WeakMap<IncidentEntry[], number>();
+
+// Snapshots already rebuilt from an array, by moment; dropped with the array
+const snapshotCache = new WeakMap<IncidentEntry[], Map<number, IncidentEntry[]>>();
+
+// Moments kept per array, as for the incident index
+const SNAPSHOTS_PER_ARRAY = 4;
+
+/**
+ * Rebuild a set of incidents at a given moment, dropping those not yet opened
+ * The result is tagged with the moment, so ensureSnapshot does not rebuild it again
+ */
+export function snapshotIncidents(incidents: IncidentEntry[], asOf: Date): IncidentEntry[] {
+  const snapshot = incidents
+    .map(incident => snapshotIncident(incident, asOf))
+    .filter((incident): incident is IncidentEntry => incident !== null);
+  incidentMoments.set(snapshot, asOf.getTime());
+  return snapshot;
+}
+
+/**
+ * Get a set of incidents as they were at `asOf`
+ * Arrays already standing for that moment are returned as they are; others are rebuilt once per
+ * moment and the snapshot is reused, so nested calculations can all call this on the same input
+ */
+export function ensureSnapshot(incidents: IncidentEntry[], asOf: Date): IncidentEntry[] {
+  const moment = asOf.getTime();
+  if (incidentMoments.get(incidents) === moment) return incidents;
+
+  const cached = snapshotCache.get(incidents)?.get(moment);
+  if (cached) return cached;
+
+  const snapshot = snapshotIncidents(incidents, asOf);
+  if (!snapshotCache.has(incidents)) snapshotCache.set(incidents, new Map());
+  const snapshots = snapshotCache.get(incidents)!;
+  if (snapshots.size >= SNAPSHOTS_PER_ARRAY) snapshots.delete(snapshots.keys().next().value!);
+  snapshots.set(moment, snapshot);
+  return snapshot;
+}
+
+/**
+ * Pin current incidents to the present moment, so a calculation without an "as of" moment uses
+ * them as they are, at one shared "now", instead of rebuilding them
+ * @returns The moment they were pinned to
+ */
+export function pinToNow(incidents: IncidentEntry[]): Date {
+  const now = new Date();
+  incidentMoments.set(incidents, now.getTime());
+  return now;
+}
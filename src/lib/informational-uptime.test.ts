@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateInformationalQuarter,
+  calculateInformationalRollups,
+  calculateInformationalUptime,
+  getInformationalComponents,
+} from './informational-uptime';
+import { calculateComponentSLA } from './sla-calculator';
+import { getSLADefinition } from './sla-definitions';
+import { getQuarterInfo } from './date-utils';
+import { createIncident } from './test-fixtures';
+
+/**
+ * Test Suite for Informational Uptime
+ *
+ * Components outside the SLA (Codespaces, Copilot, ...) use the SLA uptime engine,
+ * but never get a verdict or a service credit.
+ */
+
+const Q2_START = new Date('2025-04-01T00:00:00Z');
+const Q3_START = new Date('2025-07-01T00:00:00Z');
+const AS_OF = new Date('2025-10-15T00:00:00Z');
+
+describe('Informational Uptime Tests', () => {
+  describe('GIVEN the bundled registry and standard SLA', () => {
+    it('WHEN listing informational components THEN only components outside the SLA are returned', () => {
+      expect(getInformationalComponents(getSLADefinition()))
+        .toEqual(['Copilot', 'Codespaces', 'Copilot AI Model Providers']);
+    });
+
+    it('WHEN a definition covers an informational component THEN it is no longer informational', () => {
+      // Given: A contract that covers Copilot
+      const standard = getSLADefinition();
+      const definition = {
+        ...standard,
+        services: [
+          ...standard.services,
+          { name: 'Copilot', category: 'service-features' as const, calculationMethod: 'time-based' as const, hasAccurateData: true },
+        ],
+      };
+
+      // Then: Copilot is evaluated as an SLA service instead
+      expect(getInformationalComponents(definition)).not.toContain('Copilot');
+    });
+  });
+
+  describe('GIVEN an outage of an informational component', () => {
+    // Given: A 3-hour critical Copilot outage in 2025-Q2 (far below 99.9%)
+    const incidents = [createIncident('c1', '2025-05-10T10:00:00Z', 180, ['Copilot'])];
+
+    it('WHEN calculating its uptime THEN it matches the SLA engine', () => {
+      const result = calculateInformationalUptime(incidents, 'Copilot', Q2_START, Q3_START, { asOf: AS_OF });
+      const engine = calculateComponentSLA(incidents, 'Copilot', Q2_START, Q3_START, { asOf: AS_OF });
+
+      expect(result.uptimePercentage).toBe(engine.uptimePercentage);
+      expect(result.totalDowntimeMinutes).toBe(180);
+      expect(result.incidentCount).toBe(1);
+    });
+
+    it('WHEN calculating its uptime THEN no verdict or credit is attached', () => {
+      const result = calculateInformationalUptime(incidents, 'Copilot', Q2_START, Q3_START, { asOf: AS_OF });
+
+      expect(result.coveredBySLA).toBe(false);
+      expect(result).not.toHaveProperty('slaViolation');
+      expect(result).not.toHaveProperty('serviceCredit');
+    });
+
+    it('WHEN calculating the quarter THEN every informational component gets a result', () => {
+      const results = calculateInformationalQuarter(incidents, 2025, 2, { asOf: AS_OF });
+
+      expect(results.map(r => r.componentName)).toEqual(['Copilot', 'Codespaces', 'Copilot AI Model Providers']);
+      expect(results.find(r => r.componentName === 'Codespaces')?.totalDowntimeMinutes).toBe(0);
+    });
+  });
+
+  describe('GIVEN several quarters', () => {
+    it('WHEN rolling up THEN each quarter and the whole span are calculated', () => {
+      // Given: One 60-minute Codespaces outage in each of Q2 and Q3
+      const incidents = [
+        createIncident('a', '2025-05-10T10:00:00Z', 60, ['Codespaces']),
+        createIncident('b', '2025-08-10T10:00:00Z', 60, ['Codespaces']),
+      ];
+      const quarters = [getQuarterInfo(2025, 3), getQuarterInfo(2025, 2)];
+
+      // When: Rolling up both quarters
+      const rollups = calculateInformationalRollups(incidents, quarters, { asOf: AS_OF });
+      const codespaces = rollups.find(r => r.componentName === 'Codespaces');
+
+      // Then: Quarters keep their order and the overall span covers both outages
+      expect(codespaces?.quarters.map(q => q.label)).toEqual(['2025-Q3', '2025-Q2']);
+      expect(codespaces?.quarters.map(q => q.result.totalDowntimeMinutes)).toEqual([60, 60]);
+      expect(codespaces?.overall.totalDowntimeMinutes).toBe(120);
+      expect(codespaces?.overall.incidentCount).toBe(2);
+    });
+
+    it('WHEN no quarters are given THEN there is nothing to roll up', () => {
+      expect(calculateInformationalRollups([], [])).toEqual([]);
+    });
+  });
+});
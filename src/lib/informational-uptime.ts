@@ -0,0 +1,136 @@
+/**
+ * Informational Uptime
+ * Uptime for components the SLA does not cover (Codespaces, Copilot, ...)
+ *
+ * These go through the same uptime engine as SLA services, but are never compared to the
+ * target and carry no service credit: nothing can be claimed for them. Which components are
+ * tracked is set by the `informational` flag in src/data/component-registry.json; a component
+ * an SLA definition does list is evaluated as an SLA service instead.
+ */
+
+import type { CollectionEntry } from 'astro:content';
+import { calculateComponentSLA, withFixedAsOf, type SLACalculationOptions } from './sla-calculator';
+import { getServiceDefinition, resolveSLADefinition, type SLADefinition } from './sla-definitions';
+import { COMPONENT_REGISTRY, type ComponentRegistry } from './component-registry';
+import { getQuarterStart, getQuarterEnd, type Quarter, type QuarterInfo } from './date-utils';
+import type { UptimeBounds } from './uptime-bounds';
+import type { PeriodCoverage } from './coverage-ledger';
+
+// Type for incident entries from content collections
+type IncidentEntry = CollectionEntry<'incidents'>;
+
+/**
+ * Uptime of one informational component over a period
+ */
+export interface InformationalResult {
+  componentName: string;
+  uptimePercentage: number;
+  totalDowntimeMinutes: number;
+  incidentCount: number;
+  hasInsufficientData: boolean;
+  uptimeBounds: UptimeBounds;
+  coverage?: PeriodCoverage;
+  coveredBySLA: false;
+  period: {
+    start: string;
+    end: string;
+  };
+}
+
+/**
+ * Uptime of one informational component per quarter and across all of them
+ */
+export interface InformationalRollup {
+  componentName: string;
+  // Same order as the quarters passed in
+  quarters: { label: string; result: InformationalResult }[];
+  // From the start of the earliest quarter to the end of the latest
+  overall: InformationalResult;
+}
+
+/**
+ * Get the informational components not covered by a definition
+ */
+export function getInformationalComponents(
+  definition: SLADefinition,
+  registry: ComponentRegistry = COMPONENT_REGISTRY
+): string[] {
+  return registry.entries
+    .filter(entry => entry.informational && !getServiceDefinition(definition, entry.name))
+    .map(entry => entry.name);
+}
+
+/**
+ * Calculate the uptime of an informational component in a date range
+ * Downtime is weighted exactly as for SLA services; no verdict or credit is derived from it
+ */
+export function calculateInformationalUptime(
+  incidents: IncidentEntry[],
+  componentName: string,
+  startDate: Date,
+  endDate: Date,
+  options: SLACalculationOptions = {}
+): InformationalResult {
+  const result = calculateComponentSLA(incidents, componentName, startDate, endDate, {
+    ...options,
+    compareProfiles: undefined,
+  });
+
+  return {
+    componentName,
+    uptimePercentage: result.uptimePercentage,
+    totalDowntimeMinutes: result.totalDowntimeMinutes,
+    incidentCount: result.incidentCount,
+    hasInsufficientData: result.hasInsufficientData,
+    uptimeBounds: result.uptimeBounds,
+    coverage: result.coverage,
+    coveredBySLA: false,
+    period: result.period,
+  };
+}
+
+/**
+ * Calculate the uptime of every informational component in a quarter
+ */
+export function calculateInformationalQuarter(
+  incidents: IncidentEntry[],
+  year: number,
+  quarter: Quarter,
+  options: SLACalculationOptions = {}
+): InformationalResult[] {
+  const startDate = getQuarterStart(year, quarter);
+  const endDate = getQuarterEnd(year, quarter);
+  const componentNames = getInformationalComponents(resolveSLADefinition(options, startDate));
+  const fixedOptions = withFixedAsOf(incidents, options);
+
+  return componentNames.map(componentName =>
+    calculateInformationalUptime(incidents, componentName, startDate, endDate, fixedOptions)
+  );
+}
+
+/**
+ * Roll up informational components over several quarters (e.g. for the dashboard)
+ * Components are those not covered by the definition in force at the latest quarter
+ */
+export function calculateInformationalRollups(
+  incidents: IncidentEntry[],
+  quarters: QuarterInfo[],
+  options: SLACalculationOptions = {}
+): InformationalRollup[] {
+  if (quarters.length === 0) return [];
+
+  const startDate = new Date(Math.min(...quarters.map(q => q.startDate.getTime())));
+  const endDate = new Date(Math.max(...quarters.map(q => q.endDate.getTime())));
+  const latestStart = new Date(Math.max(...quarters.map(q => q.startDate.getTime())));
+  const componentNames = getInformationalComponents(resolveSLADefinition(options, latestStart));
+  const fixedOptions = withFixedAsOf(incidents, options);
+
+  return componentNames.map(componentName => ({
+    componentName,
+    quarters: quarters.map(q => ({
+      label: q.label,
+      result: calculateInformationalUptime(incidents, componentName, q.startDate, q.endDate, fixedOptions),
+    })),
+    overall: calculateInformationalUptime(incidents, componentName, startDate, endDate, fixedOptions),
+  }));
+}
@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseMaintenances,
+  getExcludedSpans,
+  getMaintenanceWindow,
+  getMaintenanceWindows,
+  isExcludedBySLA,
+  removeExcludedSpans,
+  type Maintenance,
+} from './maintenance';
+import { calculateComponentSLA } from './sla-calculator';
+import { getSLADefinition } from './sla-definitions';
+import { resolveComponentIds } from './component-registry';
+import { createIncident } from './test-fixtures';
+
+/**
+ * Test Suite for Scheduled Maintenance
+ *
+ * The standard definition excludes maintenance announced before its planned start.
+ * April 2025 has 43,200 minutes.
+ */
+
+const APRIL_START = new Date('2025-04-01T00:00:00Z');
+const MAY_START = new Date('2025-05-01T00:00:00Z');
+const AS_OF = new Date('2025-06-01T00:00:00Z');
+const HOUR = 60 * 60 * 1000;
+
+// Helper to create a Git Operations maintenance planned 10:00-12:00 on April 10th
+function createMaintenance(overrides: Partial<Maintenance> = {}): Maintenance {
+  return {
+    id: 'm1',
+    name: 'Database upgrade',
+    status: 'completed',
+    impact: 'maintenance',
+    created_at: '2025-04-03T09:00:00Z',
+    updated_at: '2025-04-10T12:00:00Z',
+    scheduled_for: '2025-04-10T10:00:00Z',
+    scheduled_until: '2025-04-10T12:00:00Z',
+    started_at: '2025-04-10T10:00:00Z',
+    resolved_at: '2025-04-10T12:00:00Z',
+    shortlink: 'https://stspg.io/m1',
+    components: [{ name: 'Git Operations', componentIds: resolveComponentIds('Git Operations') }],
+    ...overrides,
+  };
+}
+
+describe('Scheduled Maintenance Tests', () => {
+  describe('GIVEN a raw archive', () => {
+    it('WHEN a record is valid THEN its components are resolved to IDs', () => {
+      const { components, ...raw } = createMaintenance();
+
+      const [maintenance] = parseMaintenances([{ ...raw, components: components.map(c => ({ name: c.name })) }]);
+
+      expect(maintenance.components[0].componentIds).toEqual(resolveComponentIds('Git Operations'));
+    });
+
+    it('WHEN the planned window is missing THEN validation names it', () => {
+      const { scheduled_until: _, ...raw } = createMaintenance();
+
+      expect(() => parseMaintenances([raw])).toThrow(/Invalid maintenance archive: 0\.scheduled_until/);
+    });
+  });
+
+  describe('GIVEN a maintenance record', () => {
+    it('WHEN evaluated before it started THEN only the planned window is known', () => {
+      const window = getMaintenanceWindow(createMaintenance(), new Date('2025-04-05T00:00:00Z'));
+
+      expect(window.status).toBe('scheduled');
+      expect(window.actualStart).toBeNull();
+      expect(window.plannedEnd.toISOString()).toBe('2025-04-10T12:00:00.000Z');
+    });
+
+    it('WHEN evaluated before it was announced THEN it is left out', () => {
+      expect(getMaintenanceWindows([createMaintenance()], new Date('2025-04-01T00:00:00Z'))).toEqual([]);
+    });
+
+    it('WHEN the terms require more notice than was given THEN it is not excluded', () => {
+      // Given: Announced 1 hour ahead, under terms requiring 24 hours
+      const window = getMaintenanceWindow(createMaintenance({ created_at: '2025-04-10T09:00:00Z' }), AS_OF);
+      const strict = { ...getSLADefinition(), maintenanceExclusion: { minimumNoticeHours: 24 } };
+
+      expect(isExcludedBySLA(window, getSLADefinition())).toBe(true);
+      expect(isExcludedBySLA(window, strict)).toBe(false);
+    });
+
+    it('WHEN it overran its plan THEN the actual window is excluded', () => {
+      const window = getMaintenanceWindow(createMaintenance({ resolved_at: '2025-04-10T13:00:00Z' }), AS_OF);
+
+      const spans = getExcludedSpans([window], 'Git Operations', APRIL_START, MAY_START, getSLADefinition(), AS_OF);
+
+      expect(spans).toEqual([{ start: Date.parse('2025-04-10T10:00:00Z'), end: Date.parse('2025-04-10T13:00:00Z') }]);
+      expect(getExcludedSpans([window], 'Actions', APRIL_START, MAY_START, getSLADefinition(), AS_OF)).toEqual([]);
+    });
+  });
+
+  describe('GIVEN downtime intervals', () => {
+    it('WHEN an interval straddles an excluded span THEN it is split around it', () => {
+      const start = Date.parse('2025-04-10T09:00:00Z');
+      const intervals = [{ start, end: start + 4 * HOUR, weight: 1 }];
+      const spans = [{ start: start + HOUR, end: start + 3 * HOUR }];
+
+      expect(removeExcludedSpans(intervals, spans)).toEqual([
+        { start, end: start + HOUR, weight: 1 },
+        { start: start + 3 * HOUR, end: start + 4 * HOUR, weight: 1 },
+      ]);
+    });
+  });
+
+  describe('GIVEN an outage during announced maintenance', () => {
+    // Given: A 60-minute critical outage from 09:30, half of it inside the maintenance window
+    const incidents = [createIncident('i1', '2025-04-10T09:30:00Z', 60)];
+
+    it('WHEN calculating the SLA THEN maintenance leaves both the period and the downtime', () => {
+      const result = calculateComponentSLA(incidents, 'Git Operations', APRIL_START, MAY_START, {
+        asOf: AS_OF,
+        maintenances: [createMaintenance()],
+      });
+
+      // Then: 30 minutes of downtime over 43,200 - 120 minutes
+      expect(result.excludedMaintenanceMinutes).toBe(120);
+      expect(result.totalDowntimeMinutes).toBe(30);
+      expect(result.uptimePercentage).toBe(parseFloat(((43080 - 30) / 43080 * 100).toFixed(4)));
+    });
+
+    it('WHEN the terms do not exclude maintenance THEN the outage counts in full', () => {
+      const { maintenanceExclusion: _, ...definition } = getSLADefinition();
+
+      const result = calculateComponentSLA(incidents, 'Git Operations', APRIL_START, MAY_START, {
+        asOf: AS_OF,
+        maintenances: [createMaintenance()],
+        definition,
+      });
+
+      expect(result.excludedMaintenanceMinutes).toBe(0);
+      expect(result.totalDowntimeMinutes).toBe(60);
+    });
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * Scheduled Maintenance
+ * Planned and actual maintenance windows from src/data/maintenance-archive.json (archived from the
+ * scheduled-maintenances endpoint by the fetch script), and the time an SLA definition excludes
+ * from a period because of them
+ *
+ * When a definition has `maintenanceExclusion`, maintenance announced at least
+ * `minimumNoticeHours` before its planned start is removed from the period: its minutes leave
+ * the denominator and downtime inside the window is not counted. The actual window is used once
+ * known; until then, the planned one.
+ */
+
+import { z } from 'astro/zod';
+import maintenanceData from '../data/maintenance-archive.json';
+import type { SLADefinition } from './sla-definitions';
+import type { WeightedInterval } from './sla-calculator';
+import { getIncidentComponentIds, resolveComponentIds } from './component-registry';
+
+// Planned window: scheduled_for → scheduled_until; actual window: started_at → resolved_at
+const maintenanceSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  status: z.enum(['scheduled', 'in_progress', 'verifying', 'completed']),
+  impact: z.enum(['none', 'minor', 'major', 'critical', 'maintenance']),
+  created_at: z.string(),
+  updated_at: z.string(),
+  scheduled_for: z.string(),
+  scheduled_until: z.string(),
+  started_at: z.string().nullable().optional(),
+  resolved_at: z.string().nullable(),
+  shortlink: z.string(),
+  // Resolved to canonical IDs like incident components
+  components: z.array(z.object({
+    id: z.string().optional(),
+    name: z.string(),
+  }).transform(component => ({ ...component, componentIds: getIncidentComponentIds(component) }))),
+});
+
+export type Maintenance = z.infer<typeof maintenanceSchema>;
+
+export type MaintenanceStatus = 'scheduled' | 'in_progress' | 'completed';
+
+/**
+ * One maintenance as it was known at a moment
+ */
+export interface MaintenanceWindow {
+  id: string;
+  name: string;
+  shortlink: string;
+  status: MaintenanceStatus;
+  announcedAt: Date;
+  plannedStart: Date;
+  plannedEnd: Date;
+  // null until the maintenance started/ended (as of the evaluation time)
+  actualStart: Date | null;
+  actualEnd: Date | null;
+  componentNames: string[];
+  componentIds: string[];
+}
+
+/**
+ * A span of time excluded from a period (epoch milliseconds)
+ */
+export interface ExcludedSpan {
+  start: number;
+  end: number;
+}
+
+/**
+ * Validate a raw maintenance archive
+ * @throws Error listing every problem when the data does not match the schema
+ */
+export function parseMaintenances(data: unknown): Maintenance[] {
+  const result = z.array(maintenanceSchema).safeParse(data);
+
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`);
+    throw new Error(`Invalid maintenance archive: ${issues.join('; ')}`);
+  }
+  return result.data;
+}
+
+export const MAINTENANCE_ARCHIVE = parseMaintenances(maintenanceData);
+
+/**
+ * Rebuild a maintenance as it was known at `asOf`
+ * Start and end times recorded after `asOf` are treated as not yet known
+ */
+export function getMaintenanceWindow(maintenance: Maintenance, asOf: Date = new Date()): MaintenanceWindow {
+  const known = (value: string | null | undefined) =>
+    value && new Date(value).getTime() <= asOf.getTime() ? new Date(value) : null;
+
+  // Statuspage moves a maintenance to "verifying" before "completed"; until resolved it is still running
+  const actualStart = known(maintenance.started_at);
+  const actualEnd = known(maintenance.resolved_at);
+
+  return {
+    id: maintenance.id,
+    name: maintenance.name,
+    shortlink: maintenance.shortlink,
+    status: actualEnd ? 'completed' : actualStart ? 'in_progress' : 'scheduled',
+    announcedAt: new Date(maintenance.created_at),
+    plannedStart: new Date(maintenance.scheduled_for),
+    plannedEnd: new Date(maintenance.scheduled_until),
+    actualStart,
+    actualEnd,
+    componentNames: maintenance.components.map(c => c.name),
+    componentIds: [...new Set(maintenance.components.flatMap(c => c.componentIds))],
+  };
+}
+
+/**
+ * Get the maintenance windows known at `asOf`, by planned start
+ * Maintenances announced after `asOf` are left out so past evaluations stay reproducible
+ */
+export function getMaintenanceWindows(maintenances: Maintenance[], asOf: Date = new Date()): MaintenanceWindow[] {
+  return maintenances
+    .filter(maintenance => new Date(maintenance.created_at).getTime() <= asOf.getTime())
+    .map(maintenance => getMaintenanceWindow(maintenance, asOf))
+    .sort((a, b) => a.plannedStart.getTime() - b.plannedStart.getTime());
+}
+
+/**
+ * Get the span a maintenance takes out of a period
+ * An unfinished maintenance that already started runs at least until `asOf`
+ */
+export function getMaintenanceSpan(window: MaintenanceWindow, asOf: Date = new Date()): ExcludedSpan {
+  const start = (window.actualStart ?? window.plannedStart).getTime();
+  const end = window.actualEnd
+    ? window.actualEnd.getTime()
+    : window.actualStart
+      ? Math.max(window.plannedEnd.getTime(), asOf.getTime())
+      : window.plannedEnd.getTime();
+
+  return { start, end: Math.max(start, end) };
+}
+
+/**
+ * Whether a definition's terms exclude a maintenance (enough advance notice)
+ */
+export function isExcludedBySLA(window: MaintenanceWindow, definition: SLADefinition): boolean {
+  if (!definition.maintenanceExclusion) return false;
+
+  const noticeHours = (window.plannedStart.getTime() - window.announcedAt.getTime()) / (1000 * 60 * 60);
+  return noticeHours >= definition.maintenanceExclusion.minimumNoticeHours;
+}
+
+/**
+ * Whether a maintenance affects a component
+ */
+export function maintenanceAffectsComponent(window: MaintenanceWindow, componentName: string): boolean {
+  const targetIds = resolveComponentIds(componentName);
+  return window.componentIds.some(id => targetIds.includes(id));
+}
+
+/**
+ * Get the merged spans excluded from a component's period under a definition
+ */
+export function getExcludedSpans(
+  windows: MaintenanceWindow[],
+  componentName: string,
+  startDate: Date,
+  endDate: Date,
+  definition: SLADefinition,
+  asOf: Date = new Date()
+): ExcludedSpan[] {
+  const spans = windows
+    .filter(window => isExcludedBySLA(window, definition) && maintenanceAffectsComponent(window, componentName))
+    .map(window => getMaintenanceSpan(window, asOf))
+    .map(span => ({
+      start: Math.max(span.start, startDate.getTime()),
+      end: Math.min(span.end, endDate.getTime()),
+    }))
+    .filter(span => span.start < span.end)
+    .sort((a, b) => a.start - b.start);
+
+  // Merge overlapping maintenances so no minute is excluded twice
+  const merged: ExcludedSpan[] = [];
+  for (const span of spans) {
+    const last = merged[merged.length - 1];
+    if (last && span.start <= last.end) {
+      last.end = Math.max(last.end, span.end);
+    } else {
+      merged.push({ ...span });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Total minutes of merged excluded spans
+ */
+export function getExcludedMinutes(spans: ExcludedSpan[]): number {
+  return spans.reduce((sum, span) => sum + (span.end - span.start) / (1000 * 60), 0);
+}
+
+/**
+ * Remove excluded spans from downtime intervals, splitting intervals that straddle them
+ * @param spans - Merged and sorted, as returned by getExcludedSpans
+ */
+export function removeExcludedSpans(intervals: WeightedInterval[], spans: ExcludedSpan[]): WeightedInterval[] {
+  if (spans.length === 0) return intervals;
+
+  return intervals.flatMap(interval => {
+    const pieces: WeightedInterval[] = [];
+    let cursor = interval.start;
+    for (const span of spans) {
+      if (span.end <= cursor || span.start >= interval.end) continue;
+      if (span.start > cursor) {
+        pieces.push({ ...interval, start: cursor, end: span.start });
+      }
+      cursor = Math.max(cursor, span.end);
+    }
+    if (cursor < interval.end) {
+      pieces.push({ ...interval, start: cursor, end: interval.end });
+    }
+    return pieces;
+  });
+}
@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateReliabilityMetrics,
+  calculateReliabilityTrends,
+  getIncidentPhaseTimes,
+  getMetricTrend,
+  summarizeMetric,
+} from './reliability-metrics';
+import { getQuarterInfo } from './date-utils';
+import { createIncident, type IncidentImpact } from './test-fixtures';
+
+/**
+ * Test Suite for Reliability Metrics
+ *
+ * Phase times are measured from incident start to the first update of each status
+ * (read from the text of scraped "update" notes);
+ * MTBF divides the time outside incidents by the number of incidents.
+ */
+
+const Q2 = getQuarterInfo(2025, 2);
+const Q3 = getQuarterInfo(2025, 3);
+const AS_OF = new Date('2025-10-01T00:00:00Z');
+
+// Helper to create an incident whose updates reach each status after the given minutes
+function createPhasedIncident(
+  id: string,
+  start: string,
+  phases: { identified?: number; monitoring?: number; resolved?: number },
+  options: { impact?: IncidentImpact; component?: string } = {}
+) {
+  const at = (minutes: number) => new Date(new Date(start).getTime() + minutes * 60 * 1000).toISOString();
+  return createIncident(id, start, phases.resolved ?? 0, [options.component ?? 'Git Operations'], {
+    status: phases.resolved === undefined ? 'investigating' : 'resolved',
+    impact: options.impact ?? 'major',
+    resolved_at: phases.resolved === undefined ? null : at(phases.resolved),
+    incident_updates: [
+      { id: `${id}-0`, status: 'investigating', body: 'Investigating.', created_at: start },
+      ...Object.entries(phases).map(([status, minutes], i) => ({
+        id: `${id}-${i + 1}`, status, body: status, created_at: at(minutes!),
+      })),
+    ],
+  });
+}
+
+describe('Reliability Metrics Tests', () => {
+  describe('GIVEN a single incident', () => {
+    it('WHEN it went through every phase THEN each time is measured from its start', () => {
+      const incident = createPhasedIncident('a', '2025-05-01T10:00:00Z', { identified: 15, monitoring: 40, resolved: 90 });
+
+      expect(getIncidentPhaseTimes(incident)).toEqual({ timeToIdentify: 15, timeToMitigate: 40, timeToResolve: 90 });
+    });
+
+    it('WHEN it skipped a phase or is still open THEN that time is null', () => {
+      // Given: Resolved straight from investigating; ongoing without updates
+      const skipped = createPhasedIncident('b', '2025-05-01T10:00:00Z', { resolved: 30 });
+      const ongoing = createPhasedIncident('c', '2025-05-01T10:00:00Z', { identified: 5 });
+
+      expect(getIncidentPhaseTimes(skipped)).toEqual({ timeToIdentify: null, timeToMitigate: null, timeToResolve: 30 });
+      expect(getIncidentPhaseTimes(ongoing).timeToResolve).toBeNull();
+    });
+
+    it('WHEN it was scraped with only "update" notes THEN phases are read from their text', () => {
+      // Given: The history pages replace identified and monitoring with generic updates
+      const api = createPhasedIncident('d', '2025-05-01T10:00:00Z', { identified: 15, monitoring: 40, resolved: 90 });
+      const bodies: Record<string, string> = {
+        identified: 'We have identified the cause and are working on a fix.',
+        monitoring: 'A fix has been deployed and we are seeing recovery.',
+      };
+      const scraped = {
+        ...api,
+        data: {
+          ...api.data,
+          incident_updates: api.data.incident_updates.map(update => bodies[update.status]
+            ? { ...update, status: 'update', body: bodies[update.status] }
+            : update),
+        },
+      };
+
+      expect(getIncidentPhaseTimes(scraped)).toEqual({ timeToIdentify: 15, timeToMitigate: 40, timeToResolve: 90 });
+    });
+  });
+
+  describe('GIVEN a sample of minutes', () => {
+    it('WHEN summarizing THEN percentiles use the nearest rank', () => {
+      const summary = summarizeMetric([10, 20, 30, 40, 50, 60, 70, 80, 90, 100]);
+
+      expect(summary).toEqual({ count: 10, mean: 55, p50: 50, p90: 90 });
+    });
+
+    it('WHEN the sample is empty THEN every statistic is null', () => {
+      expect(summarizeMetric([])).toEqual({ count: 0, mean: null, p50: null, p90: null });
+    });
+  });
+
+  describe('GIVEN the incidents of a quarter', () => {
+    it('WHEN calculating for a component THEN only its failures count', () => {
+      // Given: Two Git Operations incidents, one on another component, one maintenance, one in Q3
+      const incidents = [
+        createPhasedIncident('d', '2025-04-10T10:00:00Z', { identified: 10, monitoring: 30, resolved: 60 }),
+        createPhasedIncident('e', '2025-05-10T10:00:00Z', { identified: 30, resolved: 120 }),
+        createPhasedIncident('f', '2025-05-12T10:00:00Z', { resolved: 600 }, { component: 'Actions' }),
+        createPhasedIncident('g', '2025-05-14T10:00:00Z', { resolved: 240 }, { impact: 'maintenance' }),
+        createPhasedIncident('h', '2025-08-10T10:00:00Z', { resolved: 60 }),
+      ];
+
+      // When: Calculating Q2 for Git Operations
+      const metrics = calculateReliabilityMetrics(incidents, 'Git Operations', Q2.startDate, Q2.endDate, Q2.label, AS_OF);
+
+      // Then: Two failures, 180 minutes in incidents out of the 131,040-minute quarter
+      expect(metrics.incidentCount).toBe(2);
+      expect(metrics.timeToIdentify).toMatchObject({ count: 2, mean: 20 });
+      expect(metrics.timeToMitigate).toMatchObject({ count: 1, p50: 30 });
+      expect(metrics.timeToResolve).toMatchObject({ count: 2, p50: 60, p90: 120 });
+      expect(metrics.mtbfMinutes).toBe((131040 - 180) / 2);
+    });
+
+    it('WHEN the quarter is in progress THEN MTBF only counts the elapsed time', () => {
+      const incidents = [createPhasedIncident('i', '2025-07-05T00:00:00Z', { resolved: 60 })];
+      const asOf = new Date('2025-07-11T00:00:00Z');
+
+      const metrics = calculateReliabilityMetrics(incidents, 'Git Operations', Q3.startDate, Q3.endDate, Q3.label, asOf);
+
+      // Then: Ten days elapsed, one hour of it in the incident
+      expect(metrics.mtbfMinutes).toBe(10 * 24 * 60 - 60);
+    });
+  });
+
+  describe('GIVEN consecutive quarters', () => {
+    it('WHEN building trends THEN each component gets one result per quarter in order', () => {
+      const incidents = [
+        createPhasedIncident('j', '2025-05-01T10:00:00Z', { resolved: 120 }),
+        createPhasedIncident('k', '2025-08-01T10:00:00Z', { resolved: 30 }),
+      ];
+
+      const trends = calculateReliabilityTrends(incidents, ['Git Operations', 'Actions'], [Q2, Q3], AS_OF);
+
+      expect(trends['Git Operations'].map(m => m.periodLabel)).toEqual(['2025-Q2', '2025-Q3']);
+      expect(trends['Git Operations'].map(m => m.timeToResolve.p50)).toEqual([120, 30]);
+      expect(trends['Actions'].map(m => m.mtbfMinutes)).toEqual([null, null]);
+    });
+
+    it('WHEN comparing metrics THEN lower response times and higher MTBF are improvements', () => {
+      expect(getMetricTrend(30, 120)).toBe('improving');
+      expect(getMetricTrend(120, 30)).toBe('worsening');
+      expect(getMetricTrend(105, 100)).toBe('stable');
+      expect(getMetricTrend(5000, 1000, true)).toBe('improving');
+      expect(getMetricTrend(null, 1000, true)).toBe('unknown');
+    });
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * Reliability Metrics
+ * Incident response times and failure frequency per component, from the status sequence of
+ * incident updates (investigating → identified → monitoring → resolved)
+ *
+ * - Time to identify (MTTA): incident start → first "identified" update
+ * - Time to mitigate: incident start → first "monitoring" update (or monitoring_at)
+ * - Time to resolve (MTTR): incident start → resolved_at
+ * - MTBF: minutes outside incidents in the elapsed period, divided by the number of incidents
+ *
+ * Scraped incidents only post "update" notes, so their phases are inferred from the update text
+ * (see getUpdatePhase). Incidents that skipped a phase (e.g. resolved straight from investigating)
+ * are left out of that phase's sample. Maintenance and no-impact incidents are not failures and are ignored.
+ */
+
+import type { CollectionEntry } from 'astro:content';
+import { getIncidentEndTime, incidentComponentMatches } from './sla-calculator';
+import { getTotalMinutes, type QuarterInfo } from './date-utils';
+import { getUpdatePhase, type IncidentPhaseName } from './incident-phases';
+
+// Type for incident entries from content collections
+type IncidentEntry = CollectionEntry<'incidents'>;
+
+/**
+ * Minutes from incident start to each phase, null when the phase was never reached
+ */
+export interface IncidentPhaseTimes {
+  timeToIdentify: number | null;
+  timeToMitigate: number | null;
+  timeToResolve: number | null;
+}
+
+/**
+ * Distribution of one metric over a period's incidents (minutes)
+ */
+export interface MetricSummary {
+  count: number;
+  mean: number | null;
+  p50: number | null;
+  p90: number | null;
+}
+
+export interface ReliabilityMetrics {
+  componentName: string;
+  periodLabel: string;
+  incidentCount: number;
+  timeToIdentify: MetricSummary;
+  timeToMitigate: MetricSummary;
+  timeToResolve: MetricSummary;
+  // null without incidents in the period
+  mtbfMinutes: number | null;
+}
+
+/**
+ * Change of a metric against the previous period
+ * Lower is better for response times; higher is better for MTBF
+ */
+export type MetricTrend = 'improving' | 'worsening' | 'stable' | 'unknown';
+
+// Relative change below which a metric counts as stable
+const STABLE_THRESHOLD = 0.1;
+
+/**
+ * Get the value at a percentile of a sorted array (nearest rank)
+ */
+function percentile(sorted: number[], p: number): number {
+  const rank = Math.max(1, Math.ceil(p * sorted.length));
+  return sorted[rank - 1];
+}
+
+/**
+ * Summarize a sample of minutes
+ */
+export function summarizeMetric(values: number[]): MetricSummary {
+  if (values.length === 0) {
+    return { count: 0, mean: null, p50: null, p90: null };
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    count: values.length,
+    mean: Math.round(values.reduce((sum, v) => sum + v, 0) / values.length),
+    p50: Math.round(percentile(sorted, 0.5)),
+    p90: Math.round(percentile(sorted, 0.9)),
+  };
+}
+
+/**
+ * Get the minutes from incident start to each response phase
+ * Ongoing incidents have no time to resolve yet
+ */
+export function getIncidentPhaseTimes(incident: IncidentEntry): IncidentPhaseTimes {
+  const start = new Date(incident.data.started_at || incident.data.created_at).getTime();
+
+  // Scraped incidents only say "update"; their phases are read from the update text
+  const firstUpdate = (phase: IncidentPhaseName) => incident.data.incident_updates
+    .filter(update => getUpdatePhase(update)?.phase === phase)
+    .map(update => new Date(update.created_at).getTime())
+    .sort((a, b) => a - b)[0];
+
+  const minutesSinceStart = (time: number | undefined) =>
+    time === undefined || isNaN(time) ? null : Math.max(0, (time - start) / (1000 * 60));
+
+  const monitoringAt = incident.data.monitoring_at
+    ? new Date(incident.data.monitoring_at).getTime()
+    : firstUpdate('monitoring');
+  const resolvedAt = incident.data.resolved_at ? new Date(incident.data.resolved_at).getTime() : undefined;
+
+  return {
+    timeToIdentify: minutesSinceStart(firstUpdate('identified')),
+    timeToMitigate: minutesSinceStart(monitoringAt),
+    timeToResolve: minutesSinceStart(resolvedAt),
+  };
+}
+
+/**
+ * Whether an incident counts as a failure of a component
+ */
+function isFailureOf(incident: IncidentEntry, componentName: string): boolean {
+  return incident.data.impact !== 'none'
+    && incident.data.impact !== 'maintenance'
+    && (incident.data.components ?? []).some(c => incidentComponentMatches(c, componentName));
+}
+
+/**
+ * Calculate reliability metrics for one component over a period
+ * Incidents are attributed to the period they started in; the period only counts up to `asOf`
+ */
+export function calculateReliabilityMetrics(
+  incidents: IncidentEntry[],
+  componentName: string,
+  startDate: Date,
+  endDate: Date,
+  periodLabel: string,
+  asOf: Date = new Date()
+): ReliabilityMetrics {
+  const periodEnd = new Date(Math.min(endDate.getTime(), asOf.getTime()));
+  const failures = incidents.filter(incident => {
+    const start = new Date(incident.data.started_at || incident.data.created_at);
+    return start >= startDate && start < periodEnd && isFailureOf(incident, componentName);
+  });
+
+  const phases = failures.map(getIncidentPhaseTimes);
+  const sample = (key: keyof IncidentPhaseTimes) =>
+    phases.map(p => p[key]).filter((v): v is number => v !== null);
+
+  // Time spent in incidents, without counting overlaps twice
+  const spans = failures
+    .map(incident => ({
+      start: new Date(incident.data.started_at || incident.data.created_at).getTime(),
+      end: Math.min(getIncidentEndTime(incident, asOf).getTime(), periodEnd.getTime()),
+    }))
+    .sort((a, b) => a.start - b.start);
+  let failureMinutes = 0;
+  let coveredUntil = -Infinity;
+  for (const span of spans) {
+    const from = Math.max(span.start, coveredUntil);
+    if (span.end > from) failureMinutes += (span.end - from) / (1000 * 60);
+    coveredUntil = Math.max(coveredUntil, span.end);
+  }
+
+  const elapsedMinutes = periodEnd > startDate ? getTotalMinutes(startDate, periodEnd) : 0;
+
+  return {
+    componentName,
+    periodLabel,
+    incidentCount: failures.length,
+    timeToIdentify: summarizeMetric(sample('timeToIdentify')),
+    timeToMitigate: summarizeMetric(sample('timeToMitigate')),
+    timeToResolve: summarizeMetric(sample('timeToResolve')),
+    mtbfMinutes: failures.length > 0 ? Math.round((elapsedMinutes - failureMinutes) / failures.length) : null,
+  };
+}
+
+/**
+ * Calculate reliability metrics for each component in each quarter
+ * Results are grouped by component, in the order the quarters are given
+ */
+export function calculateReliabilityTrends(
+  incidents: IncidentEntry[],
+  componentNames: string[],
+  quarters: QuarterInfo[],
+  asOf: Date = new Date()
+): Record<string, ReliabilityMetrics[]> {
+  return Object.fromEntries(componentNames.map(componentName => [
+    componentName,
+    quarters.map(q => calculateReliabilityMetrics(incidents, componentName, q.startDate, q.endDate, q.label, asOf)),
+  ]));
+}
+
+/**
+ * Compare a metric with the previous period
+ * @param higherIsBetter - True for MTBF, false for response times
+ */
+export function getMetricTrend(
+  current: number | null,
+  previous: number | null,
+  higherIsBetter: boolean = false
+): MetricTrend {
+  if (current === null || previous === null) return 'unknown';
+  if (previous === 0) return current === 0 ? 'stable' : higherIsBetter ? 'improving' : 'worsening';
+
+  const change = (current - previous) / previous;
+  if (Math.abs(change) < STABLE_THRESHOLD) return 'stable';
+  return (change > 0) === higherIsBetter ? 'improving' : 'worsening';
+}
@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  computeResultsDataset,
+  getDatasetQuarters,
+  getQuarterResults,
+  getResultsDatasetKey,
+  loadResultsDataset,
+  parseResultsDataset,
+  serializeResultsDataset,
+  toQuarterData,
+  type ResultsInputs,
+} from './results-dataset';
+import { calculateQuarterData } from './sla-calculator';
+import { IMPACT_PROFILE_NAMES } from './impact-profiles';
+import { snapshotIncidents } from './incident-snapshot';
+import { createIncident } from './test-fixtures';
+
+/**
+ * Test Suite for the Results Dataset
+ *
+ * Results are computed once per archive and configuration, cached under a
+ * content hash, and turned back into the QuarterData pages render.
+ */
+
+const AS_OF = new Date('2025-10-01T00:00:00Z');
+
+function createInputs(overrides: Partial<ResultsInputs> = {}): ResultsInputs {
+  return {
+    incidents: [
+      createIncident('a', '2025-05-01T10:00:00Z', 180, ['Actions'], { impact: 'major' }),
+      createIncident('b', '2025-05-01T11:00:00Z', 60, ['Actions'], { impact: 'major' }),
+      createIncident('c', '2025-08-12T08:00:00Z', 90, ['Git Operations'], { impact: 'major' }),
+    ],
+    ledger: [],
+    maintenances: [],
+    asOf: AS_OF,
+    ...overrides,
+  };
+}
+
+describe('Results Dataset Tests', () => {
+  describe('GIVEN the dataset key', () => {
+    it('WHEN the inputs are the same THEN the key is the same', () => {
+      expect(getResultsDatasetKey(createInputs())).toBe(getResultsDatasetKey(createInputs()));
+    });
+
+    it('WHEN an incident, the evaluation time or the SLA definition changes THEN the key changes', () => {
+      // Given: The same archive with one incident resolved later
+      const inputs = createInputs();
+      const edited = createInputs();
+      edited.incidents[2] = createIncident('c', '2025-08-12T08:00:00Z', 120, ['Git Operations'], { impact: 'major' });
+
+      const key = getResultsDatasetKey(inputs);
+
+      expect(getResultsDatasetKey(edited)).not.toBe(key);
+      expect(getResultsDatasetKey(createInputs({ asOf: new Date('2025-10-02T00:00:00Z') }))).not.toBe(key);
+      expect(getResultsDatasetKey(createInputs({ slaDefinitionId: 'github-standard' }))).not.toBe(key);
+    });
+  });
+
+  describe('GIVEN the covered quarters', () => {
+    it('WHEN listing them THEN they span the last 8 quarters up to the current one, oldest first', () => {
+      // Given: Early in the year, the last 8 quarters reach back two years
+      const labels = getDatasetQuarters(new Date('2026-02-15T00:00:00Z')).map(q => q.label);
+
+      expect(labels[0]).toBe('2024-Q2');
+      expect(labels[labels.length - 1]).toBe('2026-Q1');
+      expect(labels).toHaveLength(8);
+    });
+  });
+
+  describe('GIVEN a computed dataset', () => {
+    it('WHEN rehydrating a quarter THEN it matches calculating the quarter directly', () => {
+      // Given: The dataset of a small archive
+      const inputs = createInputs();
+      const dataset = computeResultsDataset(inputs);
+
+      const incidents = snapshotIncidents(inputs.incidents, AS_OF);
+
+      // When: Turning Q2 back into QuarterData
+      const quarterData = toQuarterData(getQuarterResults(dataset, '2025-Q2'), incidents);
+
+      // Then: Same as the quarter page used to calculate it
+      const expected = calculateQuarterData(incidents, 2025, 2, {
+        asOf: AS_OF,
+        ledger: [],
+        maintenances: [],
+        compareProfiles: IMPACT_PROFILE_NAMES,
+      });
+      expect(quarterData).toEqual(expected);
+      expect(quarterData.incidentClusters[0].incidents.map(i => i.data.id)).toEqual(['a', 'b']);
+    });
+
+    it('WHEN serializing and parsing it THEN dates and values survive unchanged', () => {
+      const dataset = computeResultsDataset(createInputs());
+
+      const parsed = parseResultsDataset(serializeResultsDataset(dataset));
+
+      expect(parsed).toEqual(dataset);
+      expect(parsed.quarters[0].startDate).toBeInstanceOf(Date);
+    });
+
+    it('WHEN a quarter is not covered THEN getting its results throws', () => {
+      const dataset = computeResultsDataset(createInputs());
+
+      expect(() => getQuarterResults(dataset, '2019-Q1')).toThrow('No results for 2019-Q1');
+    });
+  });
+
+  describe('GIVEN a cache directory', () => {
+    let cacheDir: string;
+
+    beforeEach(() => {
+      cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sla-results-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(cacheDir, { recursive: true, force: true });
+    });
+
+    it('WHEN a dataset for the key is cached THEN it is read instead of recomputed', () => {
+      // Given: A cached dataset for these inputs, marked so we can tell it apart
+      const inputs = createInputs({ asOf: new Date('2025-10-03T00:00:00Z') });
+      const key = getResultsDatasetKey(inputs);
+      const cached = { ...computeResultsDataset(inputs, key), forecasts: [] };
+      fs.writeFileSync(path.join(cacheDir, `results-${key}.json`), serializeResultsDataset(cached));
+
+      // When: Loading the dataset
+      const dataset = loadResultsDataset(inputs, cacheDir);
+
+      // Then: The cached copy is used
+      expect(dataset.forecasts).toEqual([]);
+      expect(dataset.key).toBe(key);
+    });
+
+    it('WHEN nothing is cached THEN the computed dataset replaces older cache files', () => {
+      // Given: A dataset cached for other inputs
+      fs.writeFileSync(path.join(cacheDir, 'results-0123456789abcdef.json'), '{}');
+      const inputs = createInputs({ asOf: new Date('2025-10-04T00:00:00Z') });
+
+      // When: Loading the dataset twice
+      const dataset = loadResultsDataset(inputs, cacheDir);
+      const again = loadResultsDataset(inputs, cacheDir);
+
+      // Then: Only the new dataset is cached, and the second load reuses it
+      expect(fs.readdirSync(cacheDir)).toEqual([`results-${dataset.key}.json`]);
+      expect(again).toBe(dataset);
+    });
+  });
+});
@@ -0,0 +1,402 @@
+/**
+ * Results Dataset
+ * Every period, component and metric the site shows, computed once into one materialized dataset
+ * that all pages and endpoints read from
+ *
+ * The dataset is keyed by a hash of everything the results depend on: the incident archive, the
+ * coverage ledger, the maintenance archive, the SLA, component, impact and root-cause configuration,
+ * the imported availability reports, the evaluation time and RESULTS_DATASET_VERSION. A dataset
+ * already computed for the same key is read back from the cache directory instead of being
+ * recomputed. Builds without SLA_AS_OF evaluate at the current time, so only builds pinned to a
+ * moment can reuse a cached dataset.
+ *
+ * Bump RESULTS_DATASET_VERSION whenever a calculation changes, so stale datasets are not reused.
+ */
+
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { CollectionEntry } from 'astro:content';
+import componentsData from '../data/components.json';
+import registryData from '../data/component-registry.json';
+import {
+  calculateQuarterData,
+  type MonthlySLARollup,
+  type QuarterData,
+  type SLAResult,
+} from './sla-calculator';
+import { getQuarterInfo, getRecentQuarters, type Quarter, type QuarterInfo } from './date-utils';
+import { resolveAsOf, snapshotIncidents } from './incident-snapshot';
+import { IMPACT_PROFILES, IMPACT_PROFILE_NAMES } from './impact-profiles';
+import { SLA_DEFINITIONS, getSLADefinition, getServiceNames } from './sla-definitions';
+import { calculateErrorBudgets, type ComponentErrorBudget } from './error-budget';
+import { forecastComponents, type ComponentForecast } from './forecast';
+import {
+  calculateInformationalQuarter,
+  calculateInformationalRollups,
+  type InformationalResult,
+  type InformationalRollup,
+} from './informational-uptime';
+import { ROOT_CAUSE_RULES, getRootCauseBreakdown, type RootCauseBreakdownRow } from './root-cause';
+import { calculateReliabilityMetrics, type ReliabilityMetrics } from './reliability-metrics';
+import { DAILY_UPTIME_DAYS, calculateDailyUptimes, type ComponentDailyUptime } from './daily-uptime';
+import { calculateUptimeTrends, type ComponentUptimeTrend } from './uptime-trends';
+import { AVAILABILITY_REPORTS, reconcileAvailabilityReports, type MonthlyReconciliation } from './availability-reports';
+import type { IncidentCluster } from './incident-clusters';
+import type { PeriodCoverage } from './coverage-ledger';
+import { MAINTENANCE_ARCHIVE, type Maintenance } from './maintenance';
+import type { CoverageEntry } from '../content/config';
+
+// Type for incident entries from content collections
+type IncidentEntry = CollectionEntry<'incidents'>;
+
+export const RESULTS_DATASET_VERSION = 5;
+
+// Cached datasets survive between builds alongside other tool caches
+export const RESULTS_CACHE_DIR = path.join(process.cwd(), 'node_modules', '.cache', 'sla-results');
+
+/**
+ * Everything the results are computed from
+ */
+export interface ResultsInputs {
+  // Incidents as stored in the collection; they are rebuilt as of `asOf` before calculating
+  incidents: IncidentEntry[];
+  ledger: CoverageEntry[];
+  maintenances: Maintenance[];
+  slaDefinitionId?: string;
+  asOf: Date;
+}
+
+/**
+ * An incident family, with its incidents referenced by id
+ */
+export interface ClusterSummary extends Omit<IncidentCluster, 'incidents'> {
+  incidentIds: string[];
+}
+
+/**
+ * All results of one quarter
+ * Incidents are referenced by id; toQuarterData resolves them again
+ */
+export interface QuarterResults {
+  label: string;
+  year: number;
+  quarter: Quarter;
+  startDate: Date;
+  endDate: Date;
+  slaResults: SLAResult[];
+  monthlyRollups: MonthlySLARollup[];
+  totalDowntime: number;
+  totalIncidents: number;
+  deduplicatedIncidents: number;
+  trackedIncidents: number;
+  hasViolation: boolean;
+  hasInsufficientData: boolean;
+  worstComponentName: string;
+  monthsInViolation: number;
+  coverage?: PeriodCoverage;
+  incidentIds: string[];
+  incidentClusters: ClusterSummary[];
+  informational: InformationalResult[];
+  rootCauses: RootCauseBreakdownRow[];
+  reliability: ReliabilityMetrics[];
+  // The same metrics for the quarter before, to show the trend
+  previousReliability: ReliabilityMetrics[];
+}
+
+export interface ResultsDataset {
+  version: number;
+  key: string;
+  asOf: Date;
+  slaDefinitionId: string | null;
+  quarters: QuarterResults[]; // Oldest first
+  // Month and quarter in progress at `asOf`
+  errorBudgets: ComponentErrorBudget[];
+  forecasts: ComponentForecast[];
+  // Components the SLA does not cover, over the last 4 quarters
+  informationalRollups: InformationalRollup[];
+  // Each SLA service day by day, over the last DAILY_UPTIME_DAYS days
+  dailyUptime: ComponentDailyUptime[];
+  // Each SLA service over rolling windows ending at `asOf`
+  uptimeTrends: ComponentUptimeTrend[];
+  // One per imported GitHub availability report, oldest month first
+  reconciliations: MonthlyReconciliation[];
+}
+
+/**
+ * Get the quarters the dataset covers: the dashboard's last 8 quarters, up to the one in progress
+ * at `asOf`, oldest first
+ * They include the whole previous year, for year-over-year comparisons; quarters that have not
+ * started yet have no results to show
+ */
+export function getDatasetQuarters(asOf: Date): QuarterInfo[] {
+  return getRecentQuarters(8, asOf).reverse();
+}
+
+/**
+ * Hash everything the results depend on
+ */
+export function getResultsDatasetKey(inputs: ResultsInputs): string {
+  const hash = createHash('sha256');
+
+  hash.update(JSON.stringify({
+    version: RESULTS_DATASET_VERSION,
+    asOf: inputs.asOf.toISOString(),
+    slaDefinitionId: inputs.slaDefinitionId ?? null,
+  }));
+  for (const incident of inputs.incidents) {
+    hash.update(JSON.stringify(incident.data));
+  }
+  hash.update(JSON.stringify(inputs.ledger));
+  hash.update(JSON.stringify(inputs.maintenances));
+  hash.update(JSON.stringify([
+    SLA_DEFINITIONS,
+    componentsData,
+    registryData,
+    IMPACT_PROFILES,
+    ROOT_CAUSE_RULES,
+    AVAILABILITY_REPORTS,
+  ]));
+
+  return hash.digest('hex').slice(0, 16);
+}
+
+/**
+ * Compute the results of every dataset quarter and the in-progress metrics
+ * Each quarter is evaluated under the SLA version in force when it started, comparing every
+ * weighting profile
+ */
+export function computeResultsDataset(
+  inputs: ResultsInputs,
+  key: string = getResultsDatasetKey(inputs)
+): ResultsDataset {
+  const { asOf, ledger, maintenances, slaDefinitionId } = inputs;
+  // Rebuilt once here; the snapshot is tagged with `asOf`, so no calculation below rebuilds it again
+  const incidents = snapshotIncidents(inputs.incidents, asOf);
+  const services = getServiceNames(getSLADefinition(slaDefinitionId, asOf));
+
+  const quarters = getDatasetQuarters(asOf).map((q): QuarterResults => {
+    const options = { asOf, ledger, maintenances, definition: getSLADefinition(slaDefinitionId, q.startDate) };
+    const data = calculateQuarterData(incidents, q.year, q.quarter, { ...options, compareProfiles: IMPACT_PROFILE_NAMES });
+    const previous = q.quarter === 1 ? getQuarterInfo(q.year - 1, 4) : getQuarterInfo(q.year, (q.quarter - 1) as Quarter);
+    // Also services only the current SLA version covers, so their trends reach back before it
+    const reliabilityNames = [...new Set([...data.slaResults.map(result => result.componentName), ...services])];
+
+    return {
+      label: q.label,
+      year: q.year,
+      quarter: q.quarter,
+      startDate: q.startDate,
+      endDate: q.endDate,
+      slaResults: data.slaResults,
+      monthlyRollups: data.monthlyRollups,
+      totalDowntime: data.totalDowntime,
+      totalIncidents: data.totalIncidents,
+      deduplicatedIncidents: data.deduplicatedIncidents,
+      trackedIncidents: data.trackedIncidents,
+      hasViolation: data.hasViolation,
+      hasInsufficientData: data.hasInsufficientData,
+      worstComponentName: data.worstComponent.componentName,
+      monthsInViolation: data.monthsInViolation,
+      coverage: data.coverage,
+      incidentIds: data.quarterIncidents.map(incident => incident.data.id),
+      incidentClusters: data.incidentClusters.map(({ incidents: members, ...cluster }) => ({
+        ...cluster,
+        incidentIds: members.map(incident => incident.data.id),
+      })),
+      informational: calculateInformationalQuarter(incidents, q.year, q.quarter, options),
+      rootCauses: getRootCauseBreakdown(incidents, q.startDate, q.endDate, asOf),
+      reliability: reliabilityNames.map(name =>
+        calculateReliabilityMetrics(incidents, name, q.startDate, q.endDate, q.label, asOf)
+      ),
+      previousReliability: reliabilityNames.map(name =>
+        calculateReliabilityMetrics(incidents, name, previous.startDate, previous.endDate, previous.label, asOf)
+      ),
+    };
+  });
+
+  return {
+    version: RESULTS_DATASET_VERSION,
+    key,
+    asOf,
+    slaDefinitionId: slaDefinitionId ?? null,
+    quarters,
+    errorBudgets: calculateErrorBudgets(incidents, services, { asOf, maintenances, slaDefinitionId }),
+    forecasts: forecastComponents(incidents, services, { asOf, ledger, slaDefinitionId }),
+    informationalRollups: calculateInformationalRollups(incidents, getRecentQuarters(4, asOf), {
+      asOf,
+      ledger,
+      maintenances,
+      slaDefinitionId,
+    }),
+    dailyUptime: calculateDailyUptimes(incidents, services, DAILY_UPTIME_DAYS, {
+      asOf,
+      ledger,
+      maintenances,
+      slaDefinitionId,
+    }),
+    uptimeTrends: calculateUptimeTrends(incidents, services, asOf, {
+      asOf,
+      ledger,
+      maintenances,
+      slaDefinitionId,
+    }),
+    reconciliations: reconcileAvailabilityReports(AVAILABILITY_REPORTS, incidents, {
+      asOf,
+      ledger,
+      maintenances,
+      slaDefinitionId,
+    }),
+  };
+}
+
+/**
+ * Serialize a dataset for the cache, tagging dates so parseResultsDataset can restore them
+ */
+export function serializeResultsDataset(dataset: ResultsDataset): string {
+  return JSON.stringify(dataset, function (this: Record<string, unknown>, key, value) {
+    const raw = this[key];
+    return raw instanceof Date ? { $date: raw.toISOString() } : value;
+  });
+}
+
+/**
+ * Parse a dataset written by serializeResultsDataset
+ */
+export function parseResultsDataset(text: string): ResultsDataset {
+  return JSON.parse(text, (_, value) =>
+    value !== null && typeof value === 'object' && typeof value.$date === 'string' && Object.keys(value).length === 1
+      ? new Date(value.$date)
+      : value
+  );
+}
+
+// Datasets already loaded in this process, by key
+const loadedDatasets = new Map<string, ResultsDataset>();
+
+/**
+ * Get the results dataset for the inputs: from memory, from the cache directory, or computed
+ * A newly computed dataset replaces older ones in the cache directory
+ */
+export function loadResultsDataset(inputs: ResultsInputs, cacheDir: string = RESULTS_CACHE_DIR): ResultsDataset {
+  const key = getResultsDatasetKey(inputs);
+  const loaded = loadedDatasets.get(key);
+  if (loaded) return loaded;
+
+  const fileName = `results-${key}.json`;
+  const filePath = path.join(cacheDir, fileName);
+  let dataset: ResultsDataset | undefined;
+
+  if (fs.existsSync(filePath)) {
+    try {
+      const cached = parseResultsDataset(fs.readFileSync(filePath, 'utf-8'));
+      if (cached.version === RESULTS_DATASET_VERSION && cached.key === key) dataset = cached;
+    } catch {
+      // Unreadable cache file: compute the dataset again
+    }
+  }
+
+  if (!dataset) {
+    dataset = computeResultsDataset(inputs, key);
+    try {
+      fs.mkdirSync(cacheDir, { recursive: true });
+      for (const file of fs.readdirSync(cacheDir)) {
+        if (/^results-[0-9a-f]+\.json$/.test(file)) fs.rmSync(path.join(cacheDir, file));
+      }
+      fs.writeFileSync(filePath, serializeResultsDataset(dataset));
+    } catch (error) {
+      console.warn(`Could not cache SLA results in ${cacheDir}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  loadedDatasets.set(key, dataset);
+  return dataset;
+}
+
+/**
+ * What every page of a build evaluates
+ */
+export interface BuildResults {
+  asOf: Date;
+  slaDefinitionId?: string;
+  // Incidents as stored in the collection
+  collection: IncidentEntry[];
+  // The same incidents rebuilt as of `asOf`
+  incidents: IncidentEntry[];
+  ledger: CoverageEntry[];
+  maintenances: Maintenance[];
+  results: ResultsDataset;
+}
+
+// Loaded once per build and shared by every page
+let buildResults: Promise<BuildResults> | undefined;
+
+/**
+ * Load the collections and the results dataset for this build
+ * Incidents are evaluated as they were at SLA_AS_OF (ISO timestamp) when set, otherwise at the
+ * moment the build first asks, against SLA_DEFINITION (an id in sla-definitions.json) when set
+ */
+export function getBuildResults(): Promise<BuildResults> {
+  buildResults ??= (async () => {
+    const { getCollection } = await import('astro:content');
+    const asOf = resolveAsOf(import.meta.env.SLA_AS_OF);
+    const slaDefinitionId: string | undefined = import.meta.env.SLA_DEFINITION;
+    const collection = await getCollection('incidents');
+    const ledger = (await getCollection('coverage')).map(entry => entry.data);
+    const maintenances = MAINTENANCE_ARCHIVE;
+    const results = loadResultsDataset({ incidents: collection, ledger, maintenances, slaDefinitionId, asOf });
+
+    return {
+      asOf,
+      slaDefinitionId,
+      collection,
+      incidents: snapshotIncidents(collection, asOf),
+      ledger,
+      maintenances,
+      results,
+    };
+  })();
+  return buildResults;
+}
+
+/**
+ * Get the results of one quarter
+ * @throws Error when the dataset does not cover the quarter
+ */
+export function getQuarterResults(dataset: ResultsDataset, label: string): QuarterResults {
+  const results = dataset.quarters.find(q => q.label === label);
+  if (!results) {
+    throw new Error(`No results for ${label} in the results dataset`);
+  }
+  return results;
+}
+
+/**
+ * Turn quarter results back into QuarterData, resolving incident ids against `incidents`
+ * @param incidents - Incidents rebuilt as of the dataset's `asOf`
+ */
+export function toQuarterData(results: QuarterResults, incidents: IncidentEntry[]): QuarterData {
+  const byId = new Map(incidents.map(incident => [incident.data.id, incident]));
+  const resolve = (ids: string[]) =>
+    ids.map(id => byId.get(id)).filter((incident): incident is IncidentEntry => incident !== undefined);
+
+  const {
+    label,
+    incidentIds,
+    incidentClusters,
+    worstComponentName,
+    informational,
+    rootCauses,
+    reliability,
+    previousReliability,
+    ...data
+  } = results;
+
+  return {
+    ...data,
+    quarterLabel: label,
+    quarterIncidents: resolve(incidentIds),
+    incidentClusters: incidentClusters.map(({ incidentIds: ids, ...cluster }) => ({ ...cluster, incidents: resolve(ids) })),
+    worstComponent: data.slaResults.find(result => result.componentName === worstComponentName)!,
+  };
+}
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import {
+  classifyIncident,
+  getRootCauseBreakdown,
+  parseRootCauseRules,
+  ROOT_CAUSE_RULES,
+  UNKNOWN_ROOT_CAUSE,
+} from './root-cause';
+import { createIncident } from './test-fixtures';
+
+/**
+ * Test Suite for Root-Cause Classification
+ *
+ * Incidents are classified by keyword rules over their postmortem and update text;
+ * postmortem matches weigh double.
+ */
+
+const Q2_START = new Date('2025-04-01T00:00:00Z');
+const Q3_START = new Date('2025-07-01T00:00:00Z');
+const AS_OF = new Date('2025-10-01T00:00:00Z');
+
+// Helper to create a resolved critical Git Operations incident with update texts and an optional postmortem
+function createReportedIncident(
+  id: string,
+  updates: string[],
+  postmortem: string | null = null,
+  start = '2025-05-10T10:00:00Z',
+  durationMinutes = 60
+) {
+  return createIncident(id, start, durationMinutes, ['Git Operations'], {
+    incident_updates: updates.map((body, i) => ({ id: `u${i}`, status: 'update', body, created_at: start })),
+    postmortem_body: postmortem,
+  });
+}
+
+describe('Root-Cause Classification Tests', () => {
+  describe('GIVEN incident text', () => {
+    it('WHEN an update names a cause THEN the incident gets that category', () => {
+      const incident = createReportedIncident('a', ['We identified a recent deployment as the cause and rolled back the change.']);
+
+      const result = classifyIncident(incident);
+
+      expect(result.category).toBe('deployment');
+      expect(result.source).toBe('updates');
+      expect(result.matchedKeywords).toEqual(['recent deploy', 'rolled back']);
+    });
+
+    it('WHEN the postmortem disagrees with the updates THEN the postmortem wins', () => {
+      // Given: Updates suspect a deployment; the postmortem blames the database
+      const incident = createReportedIncident(
+        'b',
+        ['We are rolling back a deploy while we investigate.'],
+        'The root cause was a database failover that left the primary without replicas.'
+      );
+
+      const result = classifyIncident(incident);
+
+      expect(result.category).toBe('database');
+      expect(result.source).toBe('postmortem');
+    });
+
+    it('WHEN no keyword matches THEN the incident is unknown', () => {
+      const result = classifyIncident(createReportedIncident('c', ['We are investigating reports of degraded performance.']));
+
+      expect(result.category).toBe(UNKNOWN_ROOT_CAUSE);
+      expect(result.label).toBe('Unclassified');
+      expect(result.source).toBe('none');
+    });
+
+    it('WHEN an update only reports deploying the fix THEN it is not a deployment cause', () => {
+      // Given: Mitigation wording, not cause wording
+      const incident = createReportedIncident('j', [
+        'We have deployed a fix and are monitoring recovery.',
+        'The fix is rolling out to all regions.',
+      ]);
+
+      const result = classifyIncident(incident);
+
+      expect(result.category).toBe(UNKNOWN_ROOT_CAUSE);
+    });
+
+    it('WHEN a keyword appears inside a word THEN it does not match', () => {
+      // "barcode changes" does not start with "code change"
+      const result = classifyIncident(createReportedIncident('d', ['Barcode changes failed to render on some pages.']));
+
+      expect(result.category).toBe(UNKNOWN_ROOT_CAUSE);
+    });
+  });
+
+  describe('GIVEN custom rules', () => {
+    it('WHEN categories tie THEN the first listed wins', () => {
+      const rules = parseRootCauseRules({
+        categories: [
+          { id: 'network', label: 'Network', keywords: ['packet loss'] },
+          { id: 'hardware', label: 'Hardware', keywords: ['switch'] },
+        ],
+      });
+
+      const result = classifyIncident(createReportedIncident('e', ['A switch failure caused packet loss.']), rules);
+
+      expect(result.category).toBe('network');
+    });
+
+    it('WHEN a category uses the reserved id THEN validation fails', () => {
+      const data = { categories: [{ id: 'unknown', label: 'Other', keywords: ['x'] }] };
+
+      expect(() => parseRootCauseRules(data)).toThrow(/Invalid root-cause rules: categories\.0\.id/);
+    });
+  });
+
+  describe('GIVEN the incidents of a quarter', () => {
+    it('WHEN breaking down downtime THEN each category sums its incidents', () => {
+      // Given: Two deployment incidents (60 + 30 min), one unknown (30 min), one outside the quarter
+      const incidents = [
+        createReportedIncident('f', ['Caused by a deployment.'], null, '2025-04-10T10:00:00Z', 60),
+        createReportedIncident('g', ['A deploy was reverted.'], null, '2025-05-10T10:00:00Z', 30),
+        createReportedIncident('h', ['Investigating.'], null, '2025-06-10T10:00:00Z', 30),
+        createReportedIncident('i', ['Caused by a deployment.'], null, '2025-08-10T10:00:00Z', 60),
+      ];
+
+      // When: Breaking down Q2
+      const rows = getRootCauseBreakdown(incidents, Q2_START, Q3_START, AS_OF);
+
+      // Then: Deployment leads with 75% of the downtime; every category is listed
+      expect(rows[0]).toMatchObject({ category: 'deployment', incidentCount: 2, downtimeMinutes: 90, share: 0.75 });
+      expect(rows[1]).toMatchObject({ category: UNKNOWN_ROOT_CAUSE, incidentCount: 1, downtimeMinutes: 30 });
+      expect(rows).toHaveLength(ROOT_CAUSE_RULES.categories.length + 1);
+    });
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Root-Cause Classification
+ * Sorts incidents into a root-cause taxonomy using the keyword rules in src/data/root-cause-rules.json
+ *
+ * Keywords are matched case-insensitively at the start of a word ("recent deploy" also matches
+ * "recent deployment"), and describe causes rather than fixes: "we have deployed a fix" is not one. Each occurrence in the postmortem counts double, since postmortems state the cause
+ * while updates are often written before it is known. The category with the highest score wins;
+ * ties go to the category listed first. Incidents with no match are "unknown".
+ */
+
+import { z } from 'astro/zod';
+import type { CollectionEntry } from 'astro:content';
+import rulesData from '../data/root-cause-rules.json';
+import { calculateIncidentDowntimeInPeriod, getIncidentEndTime } from './sla-calculator';
+
+// Type for incident entries from content collections
+type IncidentEntry = CollectionEntry<'incidents'>;
+
+export const UNKNOWN_ROOT_CAUSE = 'unknown';
+
+// Weight of a keyword occurrence in the postmortem, relative to one in an update
+const POSTMORTEM_WEIGHT = 2;
+
+const rootCauseRulesSchema = z.object({
+  categories: z.array(z.object({
+    id: z.string().min(1).refine(id => id !== UNKNOWN_ROOT_CAUSE, `"${UNKNOWN_ROOT_CAUSE}" is reserved for unmatched incidents`),
+    label: z.string().min(1),
+    keywords: z.array(z.string().min(1)).min(1),
+  })).min(1),
+}).superRefine((rules, ctx) => {
+  const ids = rules.categories.map(category => category.id);
+  if (new Set(ids).size !== ids.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Category ids must be unique', path: ['categories'] });
+  }
+});
+
+export type RootCauseRules = z.infer<typeof rootCauseRulesSchema>;
+
+/**
+ * Root cause assigned to one incident
+ */
+export interface RootCauseClassification {
+  category: string;
+  label: string;
+  // Keywords of the winning category found in the text
+  matchedKeywords: string[];
+  // Where the winning keywords were found
+  source: 'postmortem' | 'updates' | 'none';
+}
+
+/**
+ * Downtime attributed to one root-cause category in a period
+ */
+export interface RootCauseBreakdownRow {
+  category: string;
+  label: string;
+  incidentCount: number;
+  // Impact-weighted incident downtime within the period (not per component)
+  downtimeMinutes: number;
+  share: number; // 0-1 of all downtime in the period
+}
+
+/**
+ * Validate raw root-cause rules
+ * @throws Error listing every problem when the data does not match the schema
+ */
+export function parseRootCauseRules(data: unknown): RootCauseRules {
+  const result = rootCauseRulesSchema.safeParse(data);
+
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`);
+    throw new Error(`Invalid root-cause rules: ${issues.join('; ')}`);
+  }
+  return result.data;
+}
+
+export const ROOT_CAUSE_RULES = parseRootCauseRules(rulesData);
+
+/**
+ * Count how often a keyword starts a word in a text
+ */
+function countKeyword(text: string, keyword: string): number {
+  const escaped = keyword.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return text.match(new RegExp(`\\b${escaped}`, 'g'))?.length ?? 0;
+}
+
+/**
+ * Get the label of a category id
+ */
+export function getRootCauseLabel(category: string, rules: RootCauseRules = ROOT_CAUSE_RULES): string {
+  return rules.categories.find(c => c.id === category)?.label ?? 'Unclassified';
+}
+
+/**
+ * Classify an incident by its postmortem and update text
+ */
+export function classifyIncident(
+  incident: { data: Pick<IncidentEntry['data'], 'postmortem_body' | 'incident_updates'> },
+  rules: RootCauseRules = ROOT_CAUSE_RULES
+): RootCauseClassification {
+  const postmortem = (incident.data.postmortem_body ?? '').toLowerCase();
+  const updates = incident.data.incident_updates.map(update => update.body).join('\n').toLowerCase();
+
+  let best: RootCauseClassification & { score: number } = {
+    category: UNKNOWN_ROOT_CAUSE,
+    label: getRootCauseLabel(UNKNOWN_ROOT_CAUSE, rules),
+    matchedKeywords: [],
+    source: 'none',
+    score: 0,
+  };
+
+  for (const category of rules.categories) {
+    let postmortemScore = 0;
+    let updatesScore = 0;
+    const matchedKeywords: string[] = [];
+
+    for (const keyword of category.keywords) {
+      const inPostmortem = countKeyword(postmortem, keyword);
+      const inUpdates = countKeyword(updates, keyword);
+      if (inPostmortem + inUpdates > 0) matchedKeywords.push(keyword);
+      postmortemScore += inPostmortem * POSTMORTEM_WEIGHT;
+      updatesScore += inUpdates;
+    }
+
+    const score = postmortemScore + updatesScore;
+    if (score > best.score) {
+      best = {
+        category: category.id,
+        label: category.label,
+        matchedKeywords,
+        source: postmortemScore > 0 ? 'postmortem' : 'updates',
+        score,
+      };
+    }
+  }
+
+  const { score: _, ...classification } = best;
+  return classification;
+}
+
+/**
+ * Break down a period's incident downtime by root-cause category, largest first
+ * Every category is listed, including those without incidents
+ */
+export function getRootCauseBreakdown(
+  incidents: IncidentEntry[],
+  startDate: Date,
+  endDate: Date,
+  asOf: Date = new Date(),
+  rules: RootCauseRules = ROOT_CAUSE_RULES
+): RootCauseBreakdownRow[] {
+  const rows = new Map<string, RootCauseBreakdownRow>(
+    [...rules.categories.map(c => c.id), UNKNOWN_ROOT_CAUSE].map(category => [category, {
+      category,
+      label: getRootCauseLabel(category, rules),
+      incidentCount: 0,
+      downtimeMinutes: 0,
+      share: 0,
+    }])
+  );
+
+  for (const incident of incidents) {
+    const start = new Date(incident.data.started_at || incident.data.created_at);
+    if (start >= endDate || getIncidentEndTime(incident, asOf) <= startDate) continue;
+
+    const row = rows.get(classifyIncident(incident, rules).category)!;
+    row.incidentCount++;
+    row.downtimeMinutes += calculateIncidentDowntimeInPeriod(incident, startDate, endDate, asOf);
+  }
+
+  const total = [...rows.values()].reduce((sum, row) => sum + row.downtimeMinutes, 0);
+  return [...rows.values()]
+    .map(row => ({
+      ...row,
+      downtimeMinutes: Math.round(row.downtimeMinutes),
+      share: total > 0 ? row.downtimeMinutes / total : 0,
+    }))
+    .sort((a, b) => b.downtimeMinutes - a.downtimeMinutes || b.incidentCount - a.incidentCount);
+}
@@ -0,0 +1,247 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateQuarterCredits,
+  getClaimDeadline,
+  getClaimStatus,
+  getMonthlySpend,
+  getOpenClaims,
+  getQuarterSpend,
+  parseBillingInputs,
+  BILLING,
+  type BillingInputs,
+} from './service-credits';
+import { getQuarterEnd } from './date-utils';
+import type { SLAResult } from './sla-calculator';
+
+/**
+ * Test Suite for Service Credits
+ *
+ * Based on GitHub Online Services SLA (Version: June 2021)
+ * - Credit: 10% or 25% of the amount paid for the Service Feature for the quarter
+ * - Cap: 90 days of paid service per quarter, at the rate billed when the quarter ends
+ * - Claims: within 30 days of the end of the quarter
+ */
+
+// Helper to create a quarterly SLA result
+function createResult(
+  componentName: string,
+  serviceCredit: 0 | 10 | 25,
+  hasInsufficientData = false
+): SLAResult {
+  return {
+    componentName,
+    uptimePercentage: serviceCredit === 25 ? 98.5 : serviceCredit === 10 ? 99.5 : 100,
+    totalDowntimeMinutes: 0,
+    incidentCount: 1,
+    slaViolation: serviceCredit > 0,
+    serviceCredit,
+    hasInsufficientData,
+    calculationMethod: 'time-based',
+    hasAccurateData: true,
+    downtimeMode: 'incident-impact',
+    impactProfile: 'current',
+    uptimeBounds: { best: 100, worst: 98 },
+    verdict: 'uncertain',
+    slaVersion: 'June 2021',
+    excludedMaintenanceMinutes: 0,
+    period: { start: '', end: '' },
+  };
+}
+
+const billing: BillingInputs = {
+  currency: 'USD',
+  products: [
+    {
+      id: 'enterprise',
+      name: 'Enterprise',
+      services: ['Git Operations', 'API Requests', 'Issues', 'Pull Requests', 'Webhooks', 'Pages'],
+      seats: 10,
+      pricePerSeat: 20,
+    },
+    { id: 'actions', name: 'Actions', services: ['Actions'], monthlySpend: 300 },
+  ],
+};
+
+// Mid-window for Q1 2025 (quarter ends Mar 31, claims close Apr 30)
+const DURING_CLAIM_WINDOW = new Date('2025-04-15T12:00:00Z');
+
+describe('Billing Spend Tests', () => {
+  it('WHEN a product is billed per seat THEN monthly spend is seats × price', () => {
+    expect(getMonthlySpend(billing.products[0], '2025-01')).toBe(200);
+  });
+
+  it('WHEN a month has an override THEN it replaces the default spend', () => {
+    const product = { ...billing.products[1], monthlySpendOverrides: { '2025-02': 600 } };
+
+    expect(getMonthlySpend(product, '2025-02')).toBe(600);
+    expect(getQuarterSpend(product, 2025, 1)).toBe(1200);
+  });
+});
+
+describe('Claim Window Tests', () => {
+  it('WHEN computing the deadline THEN it is 30 days after the quarter ends', () => {
+    const deadline = getClaimDeadline(2025, 1);
+    const days = (deadline.getTime() - getQuarterEnd(2025, 1).getTime()) / (1000 * 60 * 60 * 24);
+
+    expect(Math.round(days)).toBe(30);
+  });
+
+  it('WHEN the quarter is in progress THEN the claim is pending', () => {
+    expect(getClaimStatus(2025, 1, new Date('2025-02-15T12:00:00Z'))).toBe('pending');
+  });
+
+  it('WHEN inside the 30-day window THEN the claim is open', () => {
+    expect(getClaimStatus(2025, 1, DURING_CLAIM_WINDOW)).toBe('open');
+  });
+
+  it('WHEN past the window THEN the claim is expired', () => {
+    expect(getClaimStatus(2025, 1, new Date('2025-05-15T12:00:00Z'))).toBe('expired');
+  });
+});
+
+describe('Quarter Credit Tests', () => {
+  describe('GIVEN a single violated service', () => {
+    it('WHEN calculating credits THEN applies the tier to the quarter spend', () => {
+      // Given: Actions at 10% credit, $300/month
+      const results = [createResult('Actions', 10), createResult('Git Operations', 0)];
+
+      // When: Calculating Q1 2025 credits
+      const credits = calculateQuarterCredits(results, 2025, 1, billing, DURING_CLAIM_WINDOW);
+
+      // Then: 10% of $900
+      expect(credits.credits).toHaveLength(1);
+      expect(credits.credits[0].amountPaid).toBe(900);
+      expect(credits.credits[0].creditAmount).toBe(90);
+      expect(credits.credits[0].claimStatus).toBe('open');
+      expect(credits.totalCredit).toBe(90);
+    });
+  });
+
+  describe('GIVEN several violated services on the same product', () => {
+    it('WHEN calculating credits THEN the product is credited once, at the highest tier', () => {
+      // Given: Three Enterprise services violated, one of them at 25%
+      const results = [
+        createResult('Git Operations', 10),
+        createResult('Issues', 25),
+        createResult('Pull Requests', 10),
+        createResult('Actions', 0),
+      ];
+
+      // When: Calculating Q1 2025 credits
+      const credits = calculateQuarterCredits(results, 2025, 1, billing, DURING_CLAIM_WINDOW);
+
+      // Then: 25% of the $600 quarter spend, not 45%
+      expect(credits.credits).toHaveLength(1);
+      expect(credits.credits[0].componentName).toBe('Issues');
+      expect(credits.credits[0].componentNames).toEqual(['Issues', 'Git Operations', 'Pull Requests']);
+      expect(credits.credits[0].creditPercentage).toBe(25);
+      expect(credits.totalCredit).toBe(150);
+      expect(credits.cappedProducts).toEqual([]);
+    });
+  });
+
+  describe('GIVEN a product billed at its full rate all quarter', () => {
+    it('WHEN calculating credits THEN the cap does not apply', () => {
+      const results = [createResult('Actions', 25)];
+
+      const credits = calculateQuarterCredits(results, 2025, 2, billing, DURING_CLAIM_WINDOW);
+
+      // 25% of $900 is far below 90 days at $300 a month
+      expect(credits.cappedProducts).toEqual([]);
+      expect(credits.credits[0].creditAmount).toBe(225);
+    });
+  });
+
+  describe('GIVEN a product downgraded before the end of the quarter', () => {
+    it('WHEN calculating credits THEN the credit is capped at 90 days of the final rate', () => {
+      // Given: Actions dropped from $1,000 to $30 a month in June
+      const downgraded: BillingInputs = {
+        currency: 'USD',
+        products: [{
+          id: 'actions',
+          name: 'Actions',
+          services: ['Actions'],
+          monthlySpend: 1000,
+          monthlySpendOverrides: { '2025-06': 30 },
+        }],
+      };
+      const results = [createResult('Actions', 25)];
+
+      // When: Calculating Q2 2025 credits
+      const credits = calculateQuarterCredits(results, 2025, 2, downgraded, DURING_CLAIM_WINDOW);
+
+      // Then: 25% of $2,030 is limited to 90 days at $1 a day (June has 30 days)
+      expect(credits.cappedProducts).toEqual(['actions']);
+      expect(credits.credits[0].uncappedAmount).toBe(507.5);
+      expect(credits.credits[0].creditAmount).toBe(90);
+      expect(credits.totalCredit).toBe(90);
+    });
+  });
+
+  describe('GIVEN results without enough data', () => {
+    it('WHEN calculating credits THEN they are not claimable', () => {
+      const results = [createResult('Actions', 25, true)];
+
+      const credits = calculateQuarterCredits(results, 2025, 1, billing, DURING_CLAIM_WINDOW);
+
+      expect(credits.credits).toHaveLength(0);
+    });
+  });
+
+  describe('GIVEN credits across several quarters', () => {
+    it('WHEN listing open claims THEN only open ones are kept, soonest first', () => {
+      // Given: Q4 2024 expired, Q1 2025 open, Q2 2025 in progress
+      const asOf = DURING_CLAIM_WINDOW;
+      const quarters = [
+        calculateQuarterCredits([createResult('Actions', 10)], 2024, 4, billing, asOf),
+        calculateQuarterCredits([createResult('Actions', 25)], 2025, 1, billing, asOf),
+        calculateQuarterCredits([createResult('Actions', 10)], 2025, 2, billing, asOf),
+      ];
+
+      // When: Listing open claims
+      const open = getOpenClaims(quarters);
+
+      // Then: Only Q1 2025
+      expect(open.map(c => c.quarterLabel)).toEqual(['2025-Q1']);
+    });
+  });
+});
+
+describe('Billing Inputs Validation Tests', () => {
+  it('WHEN loading the billing file THEN it is valid', () => {
+    expect(BILLING.products.length).toBeGreaterThan(0);
+  });
+
+  it('WHEN a spend is negative THEN validation fails', () => {
+    const invalid = {
+      currency: 'USD',
+      products: [{ id: 'actions', name: 'Actions', services: ['Actions'], monthlySpend: -5 }],
+    };
+
+    expect(() => parseBillingInputs(invalid)).toThrow(/products\.0\.monthlySpend/);
+  });
+
+  it('WHEN a product has no spend THEN validation fails', () => {
+    const invalid = {
+      currency: 'USD',
+      products: [{ id: 'enterprise', name: 'Enterprise', services: ['Issues'], seats: 10 }],
+    };
+
+    expect(() => parseBillingInputs(invalid)).toThrow(/Either monthlySpend or seats and pricePerSeat/);
+  });
+
+  it('WHEN an override is not keyed by month THEN validation fails', () => {
+    const invalid = {
+      currency: 'USD',
+      products: [{
+        id: 'actions',
+        name: 'Actions',
+        services: ['Actions'],
+        monthlySpend: 300,
+        monthlySpendOverrides: { 'June 2025': 100 },
+      }],
+    };
+
+    expect(() => parseBillingInputs(invalid)).toThrow(/Invalid billing inputs/);
+  });
+});
@@ -0,0 +1,260 @@
+/**
+ * Service Credit Calculator
+ * Turns SLA violations into credit amounts owed, based on what we pay for each product
+ *
+ * Per the GitHub Online Services SLA (June 2021):
+ * - The credit is 10% or 25% of the amount paid for the affected Service Feature for the quarter
+ * - A product is credited once per quarter, however many of the features it covers were violated
+ * - Credits may not exceed 90 days of paid service per quarter, at the rate billed when
+ *   the quarter ends (credits are applied to later invoices, not refunded)
+ * - Claims must be made within 30 days of the end of the quarter
+ */
+
+import { z } from 'astro/zod';
+import {
+  getQuarterEnd,
+  getMonthsInQuarter,
+  type Quarter,
+} from './date-utils';
+import type { SLAResult } from './sla-calculator';
+import billingData from '../data/billing.json';
+
+export const CLAIM_WINDOW_DAYS = 30;
+export const CREDIT_CAP_DAYS = 90;
+
+/**
+ * A product we pay for and the SLA components (Service Features) it covers
+ * Spend is either a flat monthly amount or seats × price per seat
+ */
+export interface BillingProduct {
+  id: string;
+  name: string;
+  services: string[];
+  monthlySpend?: number;
+  seats?: number;
+  pricePerSeat?: number;
+  // Actual spend for specific months, keyed by month label ("2025-01")
+  monthlySpendOverrides?: Record<string, number>;
+}
+
+export interface BillingInputs {
+  currency: string;
+  products: BillingProduct[];
+}
+
+const amountSchema = z.number().nonnegative();
+
+const billingSchema = z.object({
+  currency: z.string().length(3),
+  products: z.array(
+    z.object({
+      id: z.string().min(1),
+      name: z.string(),
+      services: z.array(z.string()).min(1),
+      monthlySpend: amountSchema.optional(),
+      seats: z.number().int().nonnegative().optional(),
+      pricePerSeat: amountSchema.optional(),
+      monthlySpendOverrides: z.record(z.string().regex(/^\d{4}-\d{2}$/), amountSchema).optional(),
+    }).refine(
+      product => product.monthlySpend !== undefined || (product.seats !== undefined && product.pricePerSeat !== undefined),
+      { message: 'Either monthlySpend or seats and pricePerSeat are required' }
+    )
+  ),
+});
+
+/**
+ * Validate raw billing inputs
+ * @throws Error listing every problem when the data does not match the schema
+ */
+export function parseBillingInputs(data: unknown): BillingInputs {
+  const result = billingSchema.safeParse(data);
+
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`);
+    throw new Error(`Invalid billing inputs: ${issues.join('; ')}`);
+  }
+  return result.data;
+}
+
+export const BILLING = parseBillingInputs(billingData);
+
+/**
+ * Claim state relative to the "as of" moment
+ * - pending: the quarter has not ended yet; the credit is provisional
+ * - open: the quarter ended and the claim window is still open
+ * - expired: the claim window has closed
+ */
+export type ClaimStatus = 'pending' | 'open' | 'expired';
+
+export interface ServiceCredit {
+  componentName: string; // The violated service with the highest credit
+  componentNames: string[]; // Every violated service of the product, highest credit first
+  productId: string;
+  productName: string;
+  quarterLabel: string;
+  uptimePercentage: number;
+  creditPercentage: number;
+  amountPaid: number; // Product spend for the quarter
+  uncappedAmount: number;
+  creditAmount: number; // After the 90-day cap
+  claimDeadline: Date;
+  claimStatus: ClaimStatus;
+}
+
+export interface QuarterCredits {
+  quarterLabel: string;
+  currency: string;
+  credits: ServiceCredit[]; // At most one per product
+  totalCredit: number;
+  // Products whose credits were reduced by the 90-day cap
+  cappedProducts: string[];
+}
+
+/**
+ * Get the monthly spend of a product for one month
+ */
+export function getMonthlySpend(product: BillingProduct, monthLabel: string): number {
+  const override = product.monthlySpendOverrides?.[monthLabel];
+  if (override !== undefined) {
+    return override;
+  }
+  if (product.monthlySpend !== undefined) {
+    return product.monthlySpend;
+  }
+  return (product.seats ?? 0) * (product.pricePerSeat ?? 0);
+}
+
+/**
+ * Get the amount paid for a product over a quarter
+ */
+export function getQuarterSpend(product: BillingProduct, year: number, quarter: Quarter): number {
+  return getMonthsInQuarter(year, quarter)
+    .reduce((sum, month) => sum + getMonthlySpend(product, month.label), 0);
+}
+
+/**
+ * Get the most a product can be credited for a quarter: 90 days of paid service at the
+ * daily rate of the quarter's last month
+ */
+export function getCreditCap(product: BillingProduct, year: number, quarter: Quarter): number {
+  const lastMonth = getMonthsInQuarter(year, quarter)[2];
+  const daysInMonth = Math.round(
+    (lastMonth.endDate.getTime() + 1 - lastMonth.startDate.getTime()) / (1000 * 60 * 60 * 24)
+  );
+  return getMonthlySpend(product, lastMonth.label) * CREDIT_CAP_DAYS / daysInMonth;
+}
+
+/**
+ * Get the last moment a credit for a quarter can be claimed
+ */
+export function getClaimDeadline(year: number, quarter: Quarter): Date {
+  const deadline = new Date(getQuarterEnd(year, quarter));
+  deadline.setDate(deadline.getDate() + CLAIM_WINDOW_DAYS);
+  return deadline;
+}
+
+/**
+ * Get the claim status of a quarter's credits at a given moment
+ */
+export function getClaimStatus(year: number, quarter: Quarter, asOf: Date = new Date()): ClaimStatus {
+  if (asOf <= getQuarterEnd(year, quarter)) {
+    return 'pending';
+  }
+  return asOf <= getClaimDeadline(year, quarter) ? 'open' : 'expired';
+}
+
+/**
+ * Round a currency amount to cents
+ */
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Calculate the credits owed for a quarter
+ *
+ * Each product with violated Service Features earns one credit: the highest credit
+ * percentage among them, of the amount paid for the product. Crediting every feature
+ * against the same spend would pay for it several times over. The credit is then capped
+ * at 90 days of paid service at the rate billed when the quarter ends, which only bites
+ * when a product was downgraded or cancelled during the quarter.
+ *
+ * @param slaResults - Quarterly SLA results (e.g. from calculateQuarterData)
+ * @param year - Year of the quarter
+ * @param quarter - Quarter number (1-4)
+ * @param billing - Billing inputs
+ * @param asOf - Moment used for claim statuses (defaults to now)
+ */
+export function calculateQuarterCredits(
+  slaResults: SLAResult[],
+  year: number,
+  quarter: Quarter,
+  billing: BillingInputs,
+  asOf: Date = new Date()
+): QuarterCredits {
+  const quarterLabel = `${year}-Q${quarter}`;
+  const claimDeadline = getClaimDeadline(year, quarter);
+  const claimStatus = getClaimStatus(year, quarter, asOf);
+
+  // Results without enough data cannot support a claim
+  const violations = slaResults.filter(r => r.serviceCredit > 0 && !r.hasInsufficientData);
+
+  const credits: ServiceCredit[] = [];
+  const cappedProducts: string[] = [];
+
+  for (const product of billing.products) {
+    // Highest credit first, then lowest uptime
+    const productViolations = violations
+      .filter(result => product.services.includes(result.componentName))
+      .sort((a, b) => b.serviceCredit - a.serviceCredit || a.uptimePercentage - b.uptimePercentage);
+    if (productViolations.length === 0) continue;
+
+    const [worst] = productViolations;
+    const amountPaid = getQuarterSpend(product, year, quarter);
+    const uncappedAmount = amountPaid * worst.serviceCredit / 100;
+    const cap = getCreditCap(product, year, quarter);
+    if (uncappedAmount > cap) {
+      cappedProducts.push(product.id);
+    }
+
+    credits.push({
+      componentName: worst.componentName,
+      componentNames: productViolations.map(result => result.componentName),
+      productId: product.id,
+      productName: product.name,
+      quarterLabel,
+      uptimePercentage: worst.uptimePercentage,
+      creditPercentage: worst.serviceCredit,
+      amountPaid,
+      uncappedAmount: roundAmount(uncappedAmount),
+      creditAmount: roundAmount(Math.min(uncappedAmount, cap)),
+      claimDeadline,
+      claimStatus,
+    });
+  }
+
+  return {
+    quarterLabel,
+    currency: billing.currency,
+    credits,
+    totalCredit: roundAmount(credits.reduce((sum, c) => sum + c.creditAmount, 0)),
+    cappedProducts,
+  };
+}
+
+/**
+ * List credits that can still be claimed, soonest deadline first
+ */
+export function getOpenClaims(quarterCredits: QuarterCredits[]): ServiceCredit[] {
+  return quarterCredits
+    .flatMap(q => q.credits)
+    .filter(credit => credit.claimStatus === 'open' && credit.creditAmount > 0)
+    .sort((a, b) => a.claimDeadline.getTime() - b.claimDeadline.getTime());
+}
+
+/**
+ * Format a credit amount for display
+ */
+export function formatCurrency(amount: number, currency: string): string {
+  return amount.toLocaleString('en-US', { style: 'currency', currency });
+}
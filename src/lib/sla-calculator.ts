@@ -4,15 +4,58 @@
  */
 
 import type { CollectionEntry } from 'astro:content';
-import { getDurationMinutes, getTotalMinutes, getQuarterStart, getQuarterEnd, type Quarter } from './date-utils';
+import {
+  getDurationMinutes,
+  getTotalMinutes,
+  getQuarterStart,
+  getQuarterEnd,
+  getMonthStart,
+  getMonthEnd,
+  getMonthsInQuarter,
+  type Month,
+  type Quarter,
+} from './date-utils';
+import { buildComponentTimeline, getComponentStatusMultiplier } from './component-timeline';
+import { getProfileImpactMultiplier, type ImpactProfileName } from './impact-profiles';
+import { ensureSnapshot, pinToNow } from './incident-snapshot';
+import { assessCoverage, type PeriodCoverage } from './coverage-ledger';
+import { getIncidentPhases, type IncidentPhase } from './incident-phases';
+import { clusterIncidents, type IncidentCluster } from './incident-clusters';
+import {
+  getIncidentTimeBounds,
+  getImpactWeightBounds,
+  getSLAVerdict,
+  getStatusWeightBounds,
+  type SLAVerdict,
+  type TimeSpan,
+  type UptimeBounds,
+} from './uptime-bounds';
+import {
+  getSLADefinition,
+  getServiceCredit,
+  getServiceDefinition,
+  getServiceNames,
+  getServicesByCategory,
+  resolveSLADefinition,
+  type CalculationMethod,
+  type SLADefinition,
+} from './sla-definitions';
+import { normalizeComponentName, resolveComponentIds } from './component-registry';
+import {
+  getExcludedMinutes,
+  getExcludedSpans,
+  getMaintenanceWindows,
+  removeExcludedSpans,
+  type Maintenance,
+} from './maintenance';
+import type { CoverageEntry } from '../content/config';
+
+export { normalizeComponentName };
 
 // Type for incident entries from content collections
 type IncidentEntry = CollectionEntry<'incidents'>;
 
-/**
- * SLA Calculation Methods per GitHub's official SLA document
- */
-export type CalculationMethod = 'time-based' | 'execution-based' | 'hybrid';
+export type { CalculationMethod };
 
 export interface SLAResult {
   componentName: string;
@@ -20,10 +63,23 @@ export interface SLAResult {
   totalDowntimeMinutes: number;
   incidentCount: number;
   slaViolation: boolean;
-  serviceCredit: 0 | 10 | 25; // Percentage
+  serviceCredit: number; // Percentage, from the definition's credit tiers
   hasInsufficientData: boolean; // True if quarter is before oldest incident
   calculationMethod: CalculationMethod;
   hasAccurateData: boolean; // False if calculation requires data unavailable from public API
+  downtimeMode: DowntimeMode;
+  impactProfile: ImpactProfileName;
+  // Outcomes under other weighting profiles, when requested via compareProfiles
+  profileComparison?: ProfileOutcome[];
+  // Observed share of the period, when a coverage ledger was provided
+  coverage?: PeriodCoverage;
+  // Uptime range over uncertain timestamps and impact weights, and where it sits against the target
+  uptimeBounds: UptimeBounds;
+  verdict: SLAVerdict;
+  // Version of the SLA the period was evaluated under (e.g. "June 2021")
+  slaVersion: string;
+  // Scheduled maintenance the SLA terms take out of the period (not counted as time or downtime)
+  excludedMaintenanceMinutes: number;
   period: {
     start: string;
     end: string;
@@ -36,34 +92,38 @@ export interface SLAResult {
   };
 }
 
+/**
+ * SLA outcome for one component under a specific impact weighting profile
+ */
+export interface ProfileOutcome {
+  profile: ImpactProfileName;
+  uptimePercentage: number;
+  totalDowntimeMinutes: number;
+  slaViolation: boolean;
+  serviceCredit: number;
+}
+
 export interface IncidentWithDuration extends IncidentEntry {
   durationMinutes: number;
   weightedDowntime: number;
+  phases: IncidentPhase[];
 }
 
 /**
  * Get impact multiplier for weighting downtime
  * GitHub SLA defines downtime as >5% error rate, but impact levels help us estimate severity
+ * The weights come from a named profile (see impact-profiles.ts); "current" is the default
  */
-export function getImpactMultiplier(impact: string): number {
-  const multipliers: Record<string, number> = {
-    'none': 0,
-    'minor': 0.25,     // Partial degradation
-    'major': 0.75,     // Significant issues
-    'critical': 1.0,   // Complete outage
-    'maintenance': 0,  // Scheduled maintenance (no SLA impact)
-  };
-
-  // Use nullish coalescing to handle 0 values correctly
-  // (0 is falsy, so || would incorrectly return 0.5)
-  return multipliers[impact] ?? 0.5;
+export function getImpactMultiplier(impact: string, profile: ImpactProfileName = 'current'): number {
+  return getProfileImpactMultiplier(impact, profile);
 }
 
 /**
  * Get the end time for an incident
  * Handles various cases where resolved_at might be missing
+ * Ongoing incidents end at `asOf` (defaults to now)
  */
-export function getIncidentEndTime(incident: IncidentEntry): Date {
+export function getIncidentEndTime(incident: IncidentEntry, asOf: Date = new Date()): Date {
   // 1. Check updates for "resolved" status
   // This handles cases where the top-level status wasn't updated but a resolved update exists
   // AND cases where resolved_at has an incorrect timestamp (e.g. wrong year)
@@ -87,15 +147,15 @@ export function getIncidentEndTime(incident: IncidentEntry): Date {
   // 4. Ongoing incident
   // Note: We might want to add a check for stale incidents here in the future
   // (e.g. if updated_at is > 7 days ago, assume resolved)
-  return new Date();
+  return new Date(asOf);
 }
 
 /**
  * Calculate downtime for a single incident
  */
-export function calculateIncidentDowntime(incident: IncidentEntry): number {
+export function calculateIncidentDowntime(incident: IncidentEntry, asOf: Date = new Date()): number {
   const startTime = new Date(incident.data.started_at || incident.data.created_at);
-  const endTime = getIncidentEndTime(incident);
+  const endTime = getIncidentEndTime(incident, asOf);
 
   const durationMinutes = getDurationMinutes(startTime, endTime);
   const impactMultiplier = getImpactMultiplier(incident.data.impact);
@@ -110,10 +170,11 @@ export function calculateIncidentDowntime(incident: IncidentEntry): number {
 export function calculateIncidentDowntimeInPeriod(
   incident: IncidentEntry,
   periodStart: Date,
-  periodEnd: Date
+  periodEnd: Date,
+  asOf: Date = new Date()
 ): number {
   const incidentStart = new Date(incident.data.started_at || incident.data.created_at);
-  const incidentEnd = getIncidentEndTime(incident);
+  const incidentEnd = getIncidentEndTime(incident, asOf);
 
   // If incident is completely outside the period, return 0
   if (incidentEnd < periodStart || incidentStart > periodEnd) {
@@ -144,50 +205,56 @@ export function filterIncidentsByDateRange(
   });
 }
 
-/**
- * Normalize component name for comparison
- * Removes leading "and " (case insensitive) and trims whitespace
- * This handles cases where scraping results in names like "and Pages"
- */
-export function normalizeComponentName(name: string): string {
-  return name.trim().replace(/^and\s+/i, '');
-}
-
 /**
  * Check if a component name matches a target SLA component
- * Uses fuzzy matching to handle combined component names like "Git Operations and Codespaces"
+ * Both names are resolved through the component registry, so combined names such as
+ * "Git Operations and Codespaces" match each of their parts
  *
  * Examples:
  * - componentMatchesName("Git Operations", "Git Operations") -> true
  * - componentMatchesName("Git Operations and Codespaces", "Git Operations") -> true
  * - componentMatchesName("and Actions", "Actions") -> true
- * - componentMatchesName("Issues and Pull Requests", "Issues") -> true
  * - componentMatchesName("Issues and Pull Requests", "Pull Requests") -> true
+ * - componentMatchesName("Copilot AI Model Providers", "Copilot") -> false
  */
 export function componentMatchesName(componentName: string, targetName: string): boolean {
-  const normalized = normalizeComponentName(componentName);
+  const targetIds = resolveComponentIds(targetName);
+
+  // Names outside the registry only match themselves
+  if (targetIds.length === 0) {
+    return normalizeComponentName(componentName).toLowerCase() === normalizeComponentName(targetName).toLowerCase();
+  }
 
-  // Exact match
-  if (normalized === targetName) {
-    return true;
+  const componentIds = resolveComponentIds(componentName);
+  return targetIds.some(id => componentIds.includes(id));
+}
+
+/**
+ * Check if a component listed on an incident matches a target SLA component
+ * Uses the component IDs resolved when the incidents were loaded (see src/content/config.ts);
+ * a component that could not be resolved is matched by its name
+ */
+export function incidentComponentMatches(
+  component: { name: string; componentIds?: string[] },
+  targetName: string
+): boolean {
+  if (!component.componentIds?.length) {
+    return componentMatchesName(component.name, targetName);
   }
 
-  // Fuzzy match: check if the normalized component name contains the target name
-  // This handles cases like "Git Operations and Codespaces" matching "Git Operations"
-  // We use word boundaries to avoid partial matches (e.g., "Git Operations" shouldn't match "Non-Git Operations")
-  const pattern = new RegExp(`\\b${targetName}\\b`, 'i');
-  return pattern.test(normalized);
+  const targetIds = resolveComponentIds(targetName);
+  return targetIds.some(id => component.componentIds!.includes(id));
 }
 
 /**
- * Filter incidents by component using fuzzy matching
+ * Filter incidents by component, matched through the component registry
  */
 export function filterIncidentsByComponent(
   incidents: IncidentEntry[],
   componentName: string
 ): IncidentEntry[] {
   return incidents.filter(incident =>
-    incident.data.components && incident.data.components.some(c => componentMatchesName(c.name, componentName))
+    incident.data.components && incident.data.components.some(c => incidentComponentMatches(c, componentName))
   );
 }
 
@@ -195,26 +262,52 @@ export function filterIncidentsByComponent(
  * Determine if we have sufficient data coverage for a specific quarter
  * This replaces the global oldestIncidentDate approach with quarter-specific logic
  *
- * Logic:
+ * Logic with a coverage ledger:
  * - Future quarters: No coverage
+ * - Quarters the ledger never observed, with no incidents: No coverage
+ * - Partially observed quarters: Has coverage, reported as partial
+ * - Fully observed quarters: Has coverage even if no incidents (100% uptime)
+ *
+ * Without a ledger, falls back to the legacy heuristic:
  * - Recent quarters (within 90 days): Has coverage even if no incidents (100% uptime)
  * - Old quarters with no incidents: Insufficient data (before tracking began)
+ *
+ * "Now" is `asOf` (defaults to the current time) so results can be reproduced
  */
 export function hasDataCoverageForQuarter(
   incidents: IncidentEntry[],
   startDate: Date,
-  endDate: Date
-): { hasCoverage: boolean; reason: string } {
-  const now = new Date();
-
+  endDate: Date,
+  asOf: Date = new Date(),
+  ledger?: CoverageEntry[]
+): { hasCoverage: boolean; reason: string; coverage?: PeriodCoverage } {
   // Future quarters don't have data yet
-  if (startDate > now) {
+  if (startDate > asOf) {
     return { hasCoverage: false, reason: 'Future quarter' };
   }
 
   // Find incidents that overlap with this quarter
   const incidentsInPeriod = filterIncidentsByDateRange(incidents, startDate, endDate);
 
+  if (ledger) {
+    const coverage = assessCoverage(ledger, startDate, endDate, asOf);
+
+    if (coverage.ratio === 0 && incidentsInPeriod.length === 0) {
+      return { hasCoverage: false, reason: 'No observed data for this period', coverage };
+    }
+    if (coverage.ratio < 1) {
+      return {
+        hasCoverage: true,
+        reason: `Partially observed (${(coverage.ratio * 100).toFixed(1)}% of period)`,
+        coverage,
+      };
+    }
+    if (incidentsInPeriod.length > 0) {
+      return { hasCoverage: true, reason: 'Has incidents', coverage };
+    }
+    return { hasCoverage: true, reason: 'Fully observed with no incidents (100% uptime)', coverage };
+  }
+
   // If we have incidents in this period, we definitely have data
   if (incidentsInPeriod.length > 0) {
     return { hasCoverage: true, reason: 'Has incidents' };
@@ -225,8 +318,8 @@ export function hasDataCoverageForQuarter(
   // b) No data (historical quarter before tracking began)
 
   // If the quarter ended within the last 90 days, we're likely tracking
-  const ninetyDaysAgo = new Date(now);
-  ninetyDaysAgo.setDate(now.getDate() - 90);
+  const ninetyDaysAgo = new Date(asOf);
+  ninetyDaysAgo.setDate(asOf.getDate() - 90);
 
   if (endDate >= ninetyDaysAgo) {
     return { hasCoverage: true, reason: 'Recent quarter with no incidents (100% uptime)' };
@@ -237,137 +330,429 @@ export function hasDataCoverageForQuarter(
 }
 
 /**
- * Calculate SLA for a specific component in a date range
+ * How downtime is attributed to a component
+ * - incident-impact: every matched component gets the incident's top-level impact for the whole incident
+ * - component-status: each component's own status transitions (from incident_updates) are weighted per segment
  */
-export function calculateComponentSLA(
-  incidents: IncidentEntry[],
-  componentName: string,
-  startDate: Date,
-  endDate: Date
-): SLAResult {
-  // Check if we have insufficient data for this quarter
-  const { hasCoverage } = hasDataCoverageForQuarter(incidents, startDate, endDate);
-  const hasInsufficientData = !hasCoverage;
+export type DowntimeMode = 'incident-impact' | 'component-status';
 
-  // Filter incidents affecting this component that OVERLAP with the date range
-  // (Start before end of period AND End after start of period)
-  const relevantIncidents = incidents.filter(incident => {
-    const incidentStart = new Date(incident.data.started_at || incident.data.created_at);
-    const incidentEnd = getIncidentEndTime(incident);
+/**
+ * Options shared by the SLA calculation entry points
+ */
+export interface SLACalculationOptions {
+  mode?: DowntimeMode;
+  profile?: ImpactProfileName;
+  compareProfiles?: ImpactProfileName[];
+  // Evaluate incidents as they were at this moment (defaults to now, without rebuilding history)
+  asOf?: Date;
+  // Observed time ranges; without it, coverage falls back to the 90-day heuristic
+  ledger?: CoverageEntry[];
+  // SLA to evaluate against (defaults to the standard GitHub SLA); each period uses the version in force at its start
+  slaDefinitionId?: string;
+  // Pin one SLA version for every period, regardless of effective dates
+  definition?: SLADefinition;
+  // Scheduled maintenance archive; excluded from periods when the definition's terms allow it
+  maintenances?: Maintenance[];
+}
 
-    const affectsComponent = incident.data.components && incident.data.components.some(c => componentMatchesName(c.name, componentName));
+/**
+ * A weighted span of downtime (epoch milliseconds)
+ */
+export interface WeightedInterval {
+  start: number;
+  end: number;
+  weight: number;
+}
 
-    return affectsComponent && incidentStart < endDate && incidentEnd > startDate;
-  });
+/**
+ * An incident with its timestamps parsed once (epoch milliseconds)
+ */
+export interface IndexedIncident {
+  incident: IncidentEntry;
+  start: number;
+  end: number;
+  // Widest plausible span, for uptime bounds
+  worst: TimeSpan;
+}
 
-  // Calculate total weighted downtime using interval merging
-  // This handles overlapping incidents by taking the MAX impact during any given overlap
+/**
+ * Incidents of one component sorted by start, for one span (standard or worst)
+ */
+interface SpanList {
+  entries: IndexedIncident[];
+  starts: number[];
+  maxDuration: number;
+}
 
-  // 1. Collect all relevant time points (start and end of period, and incident start/ends within period)
-  const timePoints = new Set<number>();
-  timePoints.add(startDate.getTime());
-  timePoints.add(endDate.getTime());
+/**
+ * Incidents as of one moment, with per-component interval lists built on first use
+ */
+export interface IncidentIndex {
+  asOf: Date;
+  incidents: IncidentEntry[];
+  entries: IndexedIncident[];
+  components: Map<string, { standard: SpanList; worst: SpanList }>;
+}
 
-  relevantIncidents.forEach(inc => {
-    const start = new Date(inc.data.started_at || inc.data.created_at).getTime();
-    const end = getIncidentEndTime(inc).getTime();
+// Indexes by incident array, then by moment; dropped with the array
+const incidentIndexCache = new WeakMap<IncidentEntry[], Map<string, IncidentIndex>>();
 
-    // Clamp to period
-    const clampedStart = Math.max(start, startDate.getTime());
-    const clampedEnd = Math.min(end, endDate.getTime());
+// Moments kept per array; calls that each take their own "now" would otherwise add one every time
+const INDEXES_PER_ARRAY = 4;
 
-    if (clampedStart < clampedEnd) {
-      timePoints.add(clampedStart);
-      timePoints.add(clampedEnd);
-    }
-  });
+/**
+ * Fix "now" once for a calculation spanning several components or periods
+ * Without `asOf`, every nested call would take its own current time and build its own incident
+ * index; the incidents are pinned to one "now" instead, and used as they are
+ */
+export function withFixedAsOf(incidents: IncidentEntry[], options: SLACalculationOptions): SLACalculationOptions {
+  return options.asOf ? options : { ...options, asOf: pinToNow(incidents) };
+}
+
+/**
+ * Get the incident index for a set of incidents at `asOf`, building it on first use
+ * The incidents are rebuilt as they were at `asOf` unless they already stand for that moment (see
+ * ensureSnapshot). Indexes are cached per array, so incident arrays must not be modified after
+ * they are indexed
+ */
+export function getIncidentIndex(incidents: IncidentEntry[], asOf: Date): IncidentIndex {
+  const key = String(asOf.getTime());
+  const cached = incidentIndexCache.get(incidents)?.get(key);
+  if (cached) return cached;
+
+  const indexed = ensureSnapshot(incidents, asOf);
+  const index: IncidentIndex = {
+    asOf,
+    incidents: indexed,
+    entries: indexed.map(incident => ({
+      incident,
+      start: new Date(incident.data.started_at || incident.data.created_at).getTime(),
+      end: getIncidentEndTime(incident, asOf).getTime(),
+      worst: getIncidentTimeBounds(incident, asOf).worst,
+    })),
+    components: new Map(),
+  };
 
-  const sortedPoints = Array.from(timePoints).sort((a, b) => a - b);
+  if (!incidentIndexCache.has(incidents)) incidentIndexCache.set(incidents, new Map());
+  const indexes = incidentIndexCache.get(incidents)!;
+  if (indexes.size >= INDEXES_PER_ARRAY) indexes.delete(indexes.keys().next().value!);
+  indexes.set(key, index);
+  return index;
+}
 
-  let totalWeightedDowntimeMinutes = 0;
+function buildSpanList(entries: IndexedIncident[], getSpan: (entry: IndexedIncident) => TimeSpan): SpanList {
+  // Unparseable timestamps never overlap a period, so they are left out
+  const sorted = entries
+    .filter(entry => !isNaN(getSpan(entry).start) && !isNaN(getSpan(entry).end))
+    .sort((a, b) => getSpan(a).start - getSpan(b).start);
+  return {
+    entries: sorted,
+    starts: sorted.map(entry => getSpan(entry).start),
+    maxDuration: Math.max(0, ...sorted.map(entry => getSpan(entry).end - getSpan(entry).start)),
+  };
+}
+
+// First index whose value is >= target
+function lowerBound(values: number[], target: number): number {
+  let lo = 0;
+  let hi = values.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (values[mid] < target) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
 
-  // 2. Iterate through intervals
-  for (let i = 0; i < sortedPoints.length - 1; i++) {
-    const p1 = sortedPoints[i];
-    const p2 = sortedPoints[i + 1];
+/**
+ * Get the incidents of a component whose span overlaps a period, in order of start
+ * @param span - 'standard' for the recorded span, 'worst' for the widest plausible one
+ */
+export function findComponentIncidents(
+  index: IncidentIndex,
+  componentName: string,
+  startDate: Date,
+  endDate: Date,
+  span: 'standard' | 'worst' = 'standard'
+): IndexedIncident[] {
+  let lists = index.components.get(componentName);
+  if (!lists) {
+    const matching = index.entries.filter(entry =>
+      entry.incident.data.components?.some(c => incidentComponentMatches(c, componentName))
+    );
+    lists = {
+      standard: buildSpanList(matching, entry => entry),
+      worst: buildSpanList(matching, entry => entry.worst),
+    };
+    index.components.set(componentName, lists);
+  }
 
-    // Skip if points are identical
-    if (p1 === p2) continue;
+  const list = lists[span];
+  const getSpan = (entry: IndexedIncident): TimeSpan => span === 'worst' ? entry.worst : entry;
+  const from = startDate.getTime();
+  const to = endDate.getTime();
 
-    const midPoint = (p1 + p2) / 2;
+  // Nothing starting earlier than the longest duration before the period can still reach it
+  return list.entries
+    .slice(lowerBound(list.starts, from - list.maxDuration), lowerBound(list.starts, to))
+    .filter(entry => getSpan(entry).end > from);
+}
 
-    // Find max impact for this interval
-    let maxImpact = 0;
+/**
+ * Get the weighted downtime intervals an incident contributes to a component
+ * In component-status mode, falls back to the incident impact when the
+ * incident has no transitions for the component (e.g. scraped incidents)
+ */
+export function getComponentDowntimeIntervals(
+  incident: IncidentEntry,
+  componentName: string,
+  mode: DowntimeMode = 'incident-impact',
+  profile: ImpactProfileName = 'current',
+  asOf: Date = new Date()
+): WeightedInterval[] {
+  const start = new Date(incident.data.started_at || incident.data.created_at).getTime();
+  const end = getIncidentEndTime(incident, asOf).getTime();
+
+  if (mode === 'component-status') {
+    const timeline = buildComponentTimeline(
+      incident.data.incident_updates,
+      name => componentMatchesName(name, componentName),
+      start,
+      end
+    );
+
+    if (timeline) {
+      return timeline
+        .map(segment => ({
+          start: segment.start,
+          end: segment.end,
+          weight: getComponentStatusMultiplier(segment.status, profile),
+        }))
+        .filter(interval => interval.weight > 0);
+    }
+  }
 
-    for (const inc of relevantIncidents) {
-      const start = new Date(inc.data.started_at || inc.data.created_at).getTime();
-      const end = getIncidentEndTime(inc).getTime();
+  return [{ start, end, weight: getImpactMultiplier(incident.data.impact, profile) }];
+}
 
-      // Check if incident covers this interval (using midpoint to be safe)
-      if (start <= midPoint && end >= midPoint) {
-        const impact = getImpactMultiplier(inc.data.impact);
-        if (impact > maxImpact) maxImpact = impact;
+/**
+ * Get best-case and worst-case downtime intervals of an incident for one component
+ * Uses the shortest/longest plausible incident span and the lowest/highest weight of any profile
+ */
+export function getDowntimeIntervalBounds(
+  incident: IncidentEntry,
+  componentName: string,
+  mode: DowntimeMode = 'incident-impact',
+  asOf: Date = new Date()
+): { best: WeightedInterval[]; worst: WeightedInterval[] } {
+  const spans = getIncidentTimeBounds(incident, asOf);
+
+  const toIntervals = (span: { start: number; end: number }, bound: 'min' | 'max'): WeightedInterval[] => {
+    if (mode === 'component-status') {
+      const timeline = buildComponentTimeline(
+        incident.data.incident_updates,
+        name => componentMatchesName(name, componentName),
+        span.start,
+        span.end
+      );
+
+      if (timeline) {
+        return timeline
+          .map(segment => ({
+            start: segment.start,
+            end: segment.end,
+            weight: getStatusWeightBounds(segment.status)[bound],
+          }))
+          .filter(interval => interval.weight > 0);
       }
     }
 
-    const durationMinutes = (p2 - p1) / (1000 * 60);
-    totalWeightedDowntimeMinutes += durationMinutes * maxImpact;
+    return [{ ...span, weight: getImpactWeightBounds(incident.data.impact)[bound] }];
+  };
+
+  return {
+    best: toIntervals(spans.best, 'min'),
+    worst: toIntervals(spans.worst, 'max'),
+  };
+}
+
+/**
+ * Sum weighted downtime minutes within a period using a sweep line
+ * Overlapping intervals are not double-counted: each moment counts at the MAX weight covering it
+ */
+export function sumWeightedDowntimeMinutes(
+  intervals: WeightedInterval[],
+  startDate: Date,
+  endDate: Date
+): number {
+  const periodStart = startDate.getTime();
+  const periodEnd = endDate.getTime();
+
+  // 1. Each interval, clamped to the period, opens at its start and closes at its end
+  const events: { time: number; weight: number; delta: 1 | -1 }[] = [];
+  for (const interval of intervals) {
+    const clampedStart = Math.max(interval.start, periodStart);
+    const clampedEnd = Math.min(interval.end, periodEnd);
+
+    if (clampedStart < clampedEnd) {
+      events.push({ time: clampedStart, weight: interval.weight, delta: 1 });
+      events.push({ time: clampedEnd, weight: interval.weight, delta: -1 });
+    }
+  }
+  events.sort((a, b) => a.time - b.time);
+
+  // 2. Sweep the segments between event times, tracking how many open intervals carry each weight
+  // (there are only a handful of distinct weights, so the max is cheap to recompute)
+  const openWeights = new Map<number, number>();
+  let totalWeightedDowntimeMinutes = 0;
+
+  for (let i = 0; i < events.length; ) {
+    const time = events[i].time;
+    for (; i < events.length && events[i].time === time; i++) {
+      const { weight, delta } = events[i];
+      const count = (openWeights.get(weight) ?? 0) + delta;
+      if (count === 0) openWeights.delete(weight);
+      else openWeights.set(weight, count);
+    }
+    if (i === events.length) break;
+
+    let maxWeight = 0;
+    for (const weight of openWeights.keys()) {
+      if (weight > maxWeight) maxWeight = weight;
+    }
+
+    const durationMinutes = (events[i].time - time) / (1000 * 60);
+    totalWeightedDowntimeMinutes += durationMinutes * maxWeight;
   }
 
-  // Calculate total period in minutes
-  const totalMinutes = getTotalMinutes(startDate, endDate);
+  return totalWeightedDowntimeMinutes;
+}
+
+/**
+ * Turn weighted downtime into an uptime percentage, violation flag and service credit tier
+ * `excludedMinutes` (e.g. scheduled maintenance) are taken out of the period before dividing
+ */
+export function evaluateUptime(
+  weightedDowntimeMinutes: number,
+  startDate: Date,
+  endDate: Date,
+  definition: SLADefinition = getSLADefinition(),
+  excludedMinutes: number = 0
+): Omit<ProfileOutcome, 'profile'> {
+  // Calculate total period in minutes, less any excluded time (never zero, even if all of it is excluded)
+  const totalMinutes = Math.max(getTotalMinutes(startDate, endDate) - excludedMinutes, 1);
 
   // Calculate uptime percentage
   // Ensure we don't get negative uptime if something goes wrong with floating point math
-  const effectiveDowntime = Math.min(totalWeightedDowntimeMinutes, totalMinutes);
+  const effectiveDowntime = Math.min(weightedDowntimeMinutes, totalMinutes);
   const rawUptimePercentage = ((totalMinutes - effectiveDowntime) / totalMinutes) * 100;
 
   // Round to 4 decimal places for consistent comparison
   // This ensures SLA violation checks use the same precision as returned values
   const uptimePercentage = parseFloat(rawUptimePercentage.toFixed(4));
 
-  // Determine SLA violation and service credit
-  let slaViolation = false;
-  let serviceCredit: 0 | 10 | 25 = 0;
+  return {
+    uptimePercentage,
+    totalDowntimeMinutes: Math.round(weightedDowntimeMinutes),
+    slaViolation: uptimePercentage < definition.target,
+    serviceCredit: getServiceCredit(uptimePercentage, definition),
+  };
+}
 
-  if (uptimePercentage < 99.0) {
-    slaViolation = true;
-    serviceCredit = 25;
-  } else if (uptimePercentage < 99.9) {
-    slaViolation = true;
-    serviceCredit = 10;
-  }
+/**
+ * Calculate SLA for a specific component in a date range
+ * With `options.asOf`, incidents are first rebuilt as they were at that moment
+ */
+export function calculateComponentSLA(
+  allIncidents: IncidentEntry[],
+  componentName: string,
+  startDate: Date,
+  endDate: Date,
+  options: SLACalculationOptions = {}
+): SLAResult {
+  const { mode = 'incident-impact', profile = 'current', compareProfiles } = options;
+  const definition = resolveSLADefinition(options, startDate);
+  const { asOf = pinToNow(allIncidents) } = options;
+  // Parsed once per incident set and moment, and shared by every component and period
+  const index = getIncidentIndex(allIncidents, asOf);
 
-  // Determine calculation method and data accuracy based on component
-  let calculationMethod: CalculationMethod = 'time-based';
-  let hasAccurateData = true;
-  let secondaryMetric: SLAResult['secondaryMetric'] = undefined;
-
-  if (ACTIONS_SERVICES.some(c => c === componentName)) {
-    calculationMethod = 'execution-based';
-    hasAccurateData = false; // Cannot calculate execution-based metrics from public API
-  } else if (PACKAGES_SERVICES.some(c => c === componentName)) {
-    calculationMethod = 'hybrid';
-    hasAccurateData = false; // Cannot calculate either Transfers or Storage metrics from public API
-
-    // For Packages, we would ideally show two metrics:
-    // 1. Package Transfers (execution-based)
-    // 2. Package Storage (error-rate based)
-    // But we cannot calculate either from public data
-    secondaryMetric = {
-      name: 'Package Storage',
-      uptime: uptimePercentage, // Same approximation
-      note: 'Cannot calculate from public API (requires storage error rates)'
-    };
-  } else if (SERVICE_FEATURES.some(c => c === componentName)) {
-    calculationMethod = 'time-based';
-    hasAccurateData = true; // We can approximate time-based calculations reasonably well
-  }
+  // Check if we have insufficient data for this quarter
+  const { hasCoverage, coverage } = hasDataCoverageForQuarter(index.incidents, startDate, endDate, asOf, options.ledger);
+  const hasInsufficientData = !hasCoverage;
+
+  // Incidents affecting this component that OVERLAP with the date range
+  // (Start before end of period AND End after start of period)
+  const relevantIncidents = findComponentIncidents(index, componentName, startDate, endDate)
+    .map(entry => entry.incident);
+
+  // Scheduled maintenance the SLA terms exclude: out of the period and out of the downtime
+  const excludedSpans = getExcludedSpans(
+    getMaintenanceWindows(options.maintenances ?? [], asOf),
+    componentName,
+    startDate,
+    endDate,
+    definition,
+    asOf
+  );
+  const excludedMinutes = getExcludedMinutes(excludedSpans);
+
+  // Calculate total weighted downtime using interval merging
+  // This handles overlapping incidents by taking the MAX weight during any given overlap
+  const evaluateProfile = (profileName: ImpactProfileName): ProfileOutcome => {
+    const intervals = relevantIncidents.flatMap(incident =>
+      getComponentDowntimeIntervals(incident, componentName, mode, profileName, asOf)
+    );
+    const weightedMinutes = sumWeightedDowntimeMinutes(removeExcludedSpans(intervals, excludedSpans), startDate, endDate);
+    return { profile: profileName, ...evaluateUptime(weightedMinutes, startDate, endDate, definition, excludedMinutes) };
+  };
+
+  const { uptimePercentage, totalDowntimeMinutes, slaViolation, serviceCredit } = evaluateProfile(profile);
+
+  // Bound the result over uncertain timestamps and weights
+  // The worst case can reach incidents whose estimated span falls just outside the period
+  const boundedIntervals = findComponentIncidents(index, componentName, startDate, endDate, 'worst')
+    .map(entry => getDowntimeIntervalBounds(entry.incident, componentName, mode, asOf))
+    .filter(bounds => bounds.worst.some(i => i.start < endDate.getTime() && i.end > startDate.getTime()));
+  const best = evaluateUptime(
+    sumWeightedDowntimeMinutes(removeExcludedSpans(boundedIntervals.flatMap(b => b.best), excludedSpans), startDate, endDate),
+    startDate,
+    endDate,
+    definition,
+    excludedMinutes
+  );
+  const worst = evaluateUptime(
+    sumWeightedDowntimeMinutes(removeExcludedSpans(boundedIntervals.flatMap(b => b.worst), excludedSpans), startDate, endDate),
+    startDate,
+    endDate,
+    definition,
+    excludedMinutes
+  );
+  const uptimeBounds: UptimeBounds = { best: best.uptimePercentage, worst: worst.uptimePercentage };
+  const verdict = getSLAVerdict(best.slaViolation, worst.slaViolation);
+
+  // Re-run the same calculation under other profiles to show how sensitive the verdict is to weighting
+  const profileComparison = compareProfiles
+    ? compareProfiles.map(name => name === profile
+      ? { profile, uptimePercentage, totalDowntimeMinutes, slaViolation, serviceCredit }
+      : evaluateProfile(name))
+    : undefined;
+
+  // Calculation method and data accuracy come from the SLA definition
+  // Services it does not list are treated as time-based
+  const service = getServiceDefinition(definition, componentName);
+  const calculationMethod: CalculationMethod = service?.calculationMethod ?? 'time-based';
+  const hasAccurateData = service?.hasAccurateData ?? true;
+
+  // Hybrid services (Packages) have a second metric we cannot calculate from public data;
+  // it is shown with the same approximation
+  const secondaryMetric: SLAResult['secondaryMetric'] = service?.secondaryMetric
+    ? { ...service.secondaryMetric, uptime: uptimePercentage }
+    : undefined;
 
   return {
     componentName,
     uptimePercentage,
-    totalDowntimeMinutes: Math.round(totalWeightedDowntimeMinutes),
+    totalDowntimeMinutes,
     incidentCount: relevantIncidents.length,
     slaViolation,
     serviceCredit,
@@ -375,6 +760,14 @@ export function calculateComponentSLA(
     calculationMethod,
     hasAccurateData,
     secondaryMetric,
+    downtimeMode: mode,
+    impactProfile: profile,
+    profileComparison,
+    coverage,
+    uptimeBounds,
+    verdict,
+    slaVersion: definition.version,
+    excludedMaintenanceMinutes: Math.round(excludedMinutes),
     period: {
       start: startDate.toISOString(),
       end: endDate.toISOString(),
@@ -389,14 +782,80 @@ export function calculateQuarterlySLA(
   incidents: IncidentEntry[],
   year: number,
   quarter: Quarter,
-  componentNames: string[]
+  componentNames: string[],
+  options: SLACalculationOptions = {}
 ): SLAResult[] {
   const startDate = getQuarterStart(year, quarter);
   const endDate = getQuarterEnd(year, quarter);
 
+  const fixedOptions = withFixedAsOf(incidents, options);
+
+  return componentNames.map(componentName =>
+    calculateComponentSLA(incidents, componentName, startDate, endDate, fixedOptions)
+  );
+}
+
+/**
+ * Calculate SLA for all components in a calendar month
+ * Service credits are claimed per month, so a month-level view surfaces
+ * violations that a quarterly average can hide
+ */
+export function calculateMonthlySLA(
+  incidents: IncidentEntry[],
+  year: number,
+  month: Month,
+  componentNames: string[],
+  options: SLACalculationOptions = {}
+): SLAResult[] {
+  const startDate = getMonthStart(year, month);
+  const endDate = getMonthEnd(year, month);
+
+  const fixedOptions = withFixedAsOf(incidents, options);
+
   return componentNames.map(componentName =>
-    calculateComponentSLA(incidents, componentName, startDate, endDate)
+    calculateComponentSLA(incidents, componentName, startDate, endDate, fixedOptions)
+  );
+}
+
+/**
+ * Month-by-month SLA results for one component within a quarter
+ */
+export interface MonthlySLARollup {
+  componentName: string;
+  months: SLAResult[];
+  monthsInViolation: number;
+  worstMonth: SLAResult;
+}
+
+/**
+ * Evaluate each month of a quarter separately and roll the results up per component
+ */
+export function calculateQuarterMonthlyRollup(
+  incidents: IncidentEntry[],
+  year: number,
+  quarter: Quarter,
+  componentNames: string[],
+  options: SLACalculationOptions = {}
+): MonthlySLARollup[] {
+  const fixedOptions = withFixedAsOf(incidents, options);
+  const monthlyResults = getMonthsInQuarter(year, quarter).map(month =>
+    calculateMonthlySLA(incidents, month.year, month.month, componentNames, fixedOptions)
   );
+
+  return componentNames.map((componentName, index) => {
+    const months = monthlyResults.map(results => results[index]);
+    const monthsInViolation = months.filter(m => m.slaViolation && !m.hasInsufficientData).length;
+    const worstMonth = months.reduce((worst, curr) =>
+      curr.uptimePercentage < worst.uptimePercentage ? curr : worst
+    );
+
+    return {
+      componentName,
+      months,
+      monthsInViolation,
+      worstMonth,
+    };
+  });
 }
 
 /**
@@ -409,10 +868,12 @@ export function calculateOverallSLA(
   incidents: IncidentEntry[],
   startDate: Date,
   endDate: Date,
-  componentNames: string[]
+  componentNames: string[],
+  options: SLACalculationOptions = {}
 ): SLAResult {
+  const fixedOptions = withFixedAsOf(incidents, options);
   const componentSLAs = componentNames.map(name =>
-    calculateComponentSLA(incidents, name, startDate, endDate)
+    calculateComponentSLA(incidents, name, startDate, endDate, fixedOptions)
   );
 
   // Calculate average uptime
@@ -423,12 +884,20 @@ export function calculateOverallSLA(
   const totalIncidents = componentSLAs.reduce((sum, sla) => sum + sla.incidentCount, 0);
 
   // Determine overall SLA violation
-  const slaViolation = avgUptime < 99.9;
-  const serviceCredit: 0 | 10 | 25 = avgUptime < 99.0 ? 25 : avgUptime < 99.9 ? 10 : 0;
+  const definition = resolveSLADefinition(options, startDate);
+  const slaViolation = avgUptime < definition.target;
+  const serviceCredit = getServiceCredit(avgUptime, definition);
 
   // Check if we have insufficient data
   const hasInsufficientData = componentSLAs.some(sla => sla.hasInsufficientData);
 
+  // Average the bounds the same way as the uptime
+  const average = (values: number[]) => parseFloat((values.reduce((sum, v) => sum + v, 0) / values.length).toFixed(4));
+  const uptimeBounds: UptimeBounds = {
+    best: average(componentSLAs.map(sla => sla.uptimeBounds.best)),
+    worst: average(componentSLAs.map(sla => sla.uptimeBounds.worst)),
+  };
+
   return {
     componentName: 'All Components',
     uptimePercentage: parseFloat(avgUptime.toFixed(4)),
@@ -439,6 +908,12 @@ export function calculateOverallSLA(
     hasInsufficientData,
     calculationMethod: 'time-based', // Not meaningful for aggregate
     hasAccurateData: false, // Aggregate SLA not defined by GitHub
+    downtimeMode: componentSLAs[0]?.downtimeMode ?? 'incident-impact',
+    impactProfile: componentSLAs[0]?.impactProfile ?? 'current',
+    uptimeBounds,
+    verdict: getSLAVerdict(uptimeBounds.best < definition.target, uptimeBounds.worst < definition.target),
+    slaVersion: definition.version,
+    excludedMaintenanceMinutes: Math.max(0, ...componentSLAs.map(sla => sla.excludedMaintenanceMinutes)),
     period: {
       start: startDate.toISOString(),
       end: endDate.toISOString(),
@@ -447,19 +922,24 @@ export function calculateOverallSLA(
 }
 
 /**
- * Get incidents with calculated durations
+ * Get incidents with calculated durations and the phases they went through
+ * Ongoing incidents are measured up to `asOf` (defaults to now)
  */
-export function getIncidentsWithDurations(incidents: IncidentEntry[]): IncidentWithDuration[] {
+export function getIncidentsWithDurations(
+  incidents: IncidentEntry[],
+  asOf: Date = new Date()
+): IncidentWithDuration[] {
   return incidents.map(incident => {
     const startTime = new Date(incident.data.started_at || incident.data.created_at);
-    const endTime = getIncidentEndTime(incident);
+    const endTime = getIncidentEndTime(incident, asOf);
     const durationMinutes = getDurationMinutes(startTime, endTime);
-    const weightedDowntime = calculateIncidentDowntime(incident);
+    const weightedDowntime = calculateIncidentDowntime(incident, asOf);
 
     return {
       ...incident,
       durationMinutes,
       weightedDowntime,
+      phases: getIncidentPhases(incident, endTime),
     };
   });
 }
@@ -467,83 +947,59 @@ export function getIncidentsWithDurations(incidents: IncidentEntry[]): IncidentW
 /**
  * Get SLA status label
  */
-export function getSLAStatusLabel(uptimePercentage: number, hasInsufficientData: boolean = false): string {
+export function getSLAStatusLabel(
+  uptimePercentage: number,
+  hasInsufficientData: boolean = false,
+  definition: SLADefinition = getSLADefinition()
+): string {
   if (hasInsufficientData) return 'Unknown';
-  if (uptimePercentage >= 99.9) return 'Pass';
-  if (uptimePercentage >= 99.0) return 'Violation (10% credit)';
-  return 'Violation (25% credit)';
+  if (uptimePercentage >= definition.target) return 'Pass';
+  return `Violation (${getServiceCredit(uptimePercentage, definition)}% credit)`;
 }
 
 /**
  * Get SLA status color
+ * Orange while only the first credit tier applies, red beyond it
  */
-export function getSLAStatusColor(uptimePercentage: number, hasInsufficientData: boolean = false): string {
+export function getSLAStatusColor(
+  uptimePercentage: number,
+  hasInsufficientData: boolean = false,
+  definition: SLADefinition = getSLADefinition()
+): string {
   if (hasInsufficientData) return 'gray';
-  if (uptimePercentage >= 99.9) return 'green';
-  if (uptimePercentage >= 99.0) return 'orange';
+  if (uptimePercentage >= definition.target) return 'green';
+  const firstTierCredit = Math.min(...definition.creditTiers.map(tier => tier.credit));
+  if (getServiceCredit(uptimePercentage, definition) <= firstTierCredit) return 'orange';
   return 'red';
 }
 
 /**
  * GitHub SLA Components by Calculation Method
- * Per official GitHub SLA document (Version: June 2021)
+ * Read from the current version of the standard definition in src/data/sla-definitions.json
+ * (see sla-definitions.ts for what each calculation method means)
  */
+const STANDARD_SLA = getSLADefinition();
 
 /**
  * Service Features - Time-based calculation
- * Downtime = minutes with >5% error rate
- * Formula: (total minutes - downtime) / total minutes × 100
- *
- * PUBLIC API LIMITATION: We can approximate using incident duration and impact,
- * but cannot precisely detect ">5% error rate" threshold from incident data alone.
  */
-export const SERVICE_FEATURES = [
-  'Git Operations',
-  'API Requests',
-  'Issues',
-  'Pull Requests',
-  'Webhooks',
-  'Pages',
-] as const;
+export const SERVICE_FEATURES = getServicesByCategory(STANDARD_SLA, 'service-features');
 
 /**
  * Actions - Execution-based calculation
- * Formula: (total executions - failed executions) / total executions × 100
- *
- * PUBLIC API LIMITATION: Cannot calculate from public data.
- * The API provides incident metadata but NOT execution counts or failure rates.
  */
-export const ACTIONS_SERVICES = [
-  'Actions',
-] as const;
+export const ACTIONS_SERVICES = getServicesByCategory(STANDARD_SLA, 'actions');
 
 /**
  * Packages - Hybrid calculation with TWO separate metrics
- *
- * 1. Package Transfers: Execution-based
- *    Formula: (total transfers - failed transfers) / total transfers × 100
- *
- * 2. Package Storage: Error-rate based
- *    Formula: (total minutes - minutes with >5% error rate) / total minutes × 100
- *
- * PUBLIC API LIMITATION: Cannot calculate either metric from public data.
- * Requires transfer counts and storage error rates not exposed by the API.
  */
-export const PACKAGES_SERVICES = [
-  'Packages',
-] as const;
+export const PACKAGES_SERVICES = getServicesByCategory(STANDARD_SLA, 'packages');
 
 /**
  * Combined list for backward compatibility
- * @deprecated Use category-specific arrays instead
+ * @deprecated Use category-specific arrays or getServiceNames(definition) instead
  */
-export const GITHUB_SLA_COMPONENTS = [
-  ...SERVICE_FEATURES,
-  ...ACTIONS_SERVICES,
-  ...PACKAGES_SERVICES,
-] as const;
-
-export type GitHubSLAComponent = typeof GITHUB_SLA_COMPONENTS[number];
+export const GITHUB_SLA_COMPONENTS = getServiceNames(STANDARD_SLA);
 
 /**
  * Centralized quarter data interface
@@ -558,11 +1014,17 @@ export interface QuarterData {
   slaResults: SLAResult[];
   totalDowntime: number;
   totalIncidents: number;
+  // Incidents counting each family of related incidents once
+  deduplicatedIncidents: number;
+  incidentClusters: IncidentCluster[];
   trackedIncidents: number;
   hasViolation: boolean;
   hasInsufficientData: boolean;
   worstComponent: SLAResult;
   quarterIncidents: IncidentEntry[];
+  monthlyRollups: MonthlySLARollup[];
+  monthsInViolation: number; // Months (0-3) where at least one component violated the SLA
+  coverage?: PeriodCoverage; // Same for every component; set when a ledger was provided
 }
 
 /**
@@ -572,16 +1034,22 @@ export interface QuarterData {
  * @param incidents - All incidents from the collection
  * @param year - Year of the quarter
  * @param quarter - Quarter number (1-4)
+ * @param options - Calculation options (downtime mode, weighting profiles, ...)
  * @returns Complete quarter data with SLA calculations
  */
 export function calculateQuarterData(
-  incidents: IncidentEntry[],
+  allIncidents: IncidentEntry[],
   year: number,
-  quarter: Quarter
+  quarter: Quarter,
+  options: SLACalculationOptions = {}
 ): QuarterData {
+  // Rebuild incidents as of the requested moment once; nested calculations share it and one "now"
+  const nestedOptions = withFixedAsOf(allIncidents, options);
+  const incidents = ensureSnapshot(allIncidents, nestedOptions.asOf!);
   const startDate = getQuarterStart(year, quarter);
   const endDate = getQuarterEnd(year, quarter);
   const quarterLabel = `${year}-Q${quarter}`;
+  const componentNames = getServiceNames(resolveSLADefinition(options, startDate));
 
   // Filter incidents for this quarter
   const quarterIncidents = filterIncidentsByDateRange(
@@ -595,18 +1063,25 @@ export function calculateQuarterData(
     incidents,
     year,
     quarter,
-    [...GITHUB_SLA_COMPONENTS]
+    componentNames,
+    nestedOptions
   );
 
   // Calculate overall metrics (no average uptime - GitHub doesn't define aggregate SLA)
   const totalDowntime = slaResults.reduce((sum, r) => sum + r.totalDowntimeMinutes, 0);
   const totalIncidents = quarterIncidents.length;
 
+  // Group incidents GitHub opened separately for the same problem
+  const incidentClusters = clusterIncidents(
+    quarterIncidents,
+    incident => getIncidentEndTime(incident, nestedOptions.asOf)
+  );
+
   // Count incidents that affect tracked components (using fuzzy matching)
   const trackedIncidents = quarterIncidents.filter(incident =>
     incident.data.components &&
     incident.data.components.some(c =>
-      GITHUB_SLA_COMPONENTS.some(slaComponent => componentMatchesName(c.name, slaComponent))
+      componentNames.some(slaComponent => incidentComponentMatches(c, slaComponent))
     )
   ).length;
 
@@ -619,6 +1094,21 @@ export function calculateQuarterData(
     curr.uptimePercentage < worst.uptimePercentage ? curr : worst
   );
 
+  // Evaluate each month separately - a passing quarter can still hide a violating month
+  const monthlyRollups = calculateQuarterMonthlyRollup(
+    incidents,
+    year,
+    quarter,
+    componentNames,
+    nestedOptions
+  );
+  const monthsInViolation = [0, 1, 2].filter(monthIndex =>
+    monthlyRollups.some(rollup => {
+      const month = rollup.months[monthIndex];
+      return month.slaViolation && !month.hasInsufficientData;
+    })
+  ).length;
+
   return {
     year,
     quarter,
@@ -628,10 +1118,15 @@ export function calculateQuarterData(
     slaResults,
     totalDowntime,
     totalIncidents,
+    deduplicatedIncidents: incidentClusters.length,
+    incidentClusters,
     trackedIncidents,
     hasViolation,
     hasInsufficientData,
     worstComponent,
     quarterIncidents,
+    monthlyRollups,
+    monthsInViolation,
+    coverage: slaResults[0]?.coverage,
   };
 }
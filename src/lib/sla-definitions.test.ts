@@ -0,0 +1,193 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findSLAVersion,
+  getLowestTierThreshold,
+  getSLADefinition,
+  getServiceCredit,
+  getServiceDefinition,
+  getServicesByCategory,
+  parseSLADefinitions,
+  type SLADefinition,
+} from './sla-definitions';
+import { calculateComponentSLA, evaluateUptime } from './sla-calculator';
+import type { CollectionEntry } from 'astro:content';
+
+/**
+ * Test Suite for SLA Definitions
+ *
+ * The standard definition must reproduce the GitHub Online Services SLA (Version: June 2021):
+ * 99.9% per quarter, 10% credit below 99.9%, 25% below 99.0%.
+ */
+
+// Helper to create a definition with one time-based service
+function createDefinition(overrides: Partial<SLADefinition> = {}): SLADefinition {
+  return {
+    id: 'enterprise',
+    name: 'Enterprise contract',
+    source: 'Negotiated contract',
+    version: '2024',
+    effectiveFrom: null,
+    effectiveUntil: null,
+    target: 99.95,
+    measurementWindow: 'quarter',
+    creditTiers: [
+      { below: 99.95, credit: 15 },
+      { below: 99.5, credit: 30 },
+      { below: 99.0, credit: 50 },
+    ],
+    services: [
+      { name: 'Git Operations', category: 'service-features', calculationMethod: 'time-based', hasAccurateData: true },
+    ],
+    ...overrides,
+  };
+}
+
+describe('SLA Definitions Tests', () => {
+  describe('GIVEN the bundled definitions file', () => {
+    it('WHEN loading the standard definition THEN it matches the published GitHub SLA', () => {
+      const definition = getSLADefinition();
+
+      expect(definition.target).toBe(99.9);
+      expect(definition.measurementWindow).toBe('quarter');
+      expect(getServicesByCategory(definition, 'service-features')).toEqual([
+        'Git Operations', 'API Requests', 'Issues', 'Pull Requests', 'Webhooks', 'Pages',
+      ]);
+      expect(getServiceDefinition(definition, 'Actions')?.calculationMethod).toBe('execution-based');
+      expect(getServiceDefinition(definition, 'Packages')?.calculationMethod).toBe('hybrid');
+      expect(getLowestTierThreshold(definition)).toBe(99.0);
+    });
+
+    it('WHEN asking for an unknown id THEN it throws', () => {
+      expect(() => getSLADefinition('missing')).toThrow('Unknown SLA definition: missing');
+    });
+  });
+
+  describe('GIVEN raw definition data', () => {
+    it('WHEN a field has the wrong type THEN validation names it', () => {
+      const data = [{ ...createDefinition(), target: '99.9' }];
+
+      expect(() => parseSLADefinitions(data)).toThrow(/Invalid SLA definitions: 0\.target/);
+    });
+
+    it('WHEN the measurement window is not a quarter THEN validation fails', () => {
+      const data = [{ ...createDefinition(), measurementWindow: 'month' }];
+
+      expect(() => parseSLADefinitions(data)).toThrow(/Invalid SLA definitions: 0\.measurementWindow/);
+    });
+
+    it('WHEN a credit tier starts above the target THEN validation fails', () => {
+      const data = [createDefinition({ creditTiers: [{ below: 99.99, credit: 10 }] })];
+
+      expect(() => parseSLADefinitions(data)).toThrow(/Credit tiers cannot start above the target/);
+    });
+
+    it('WHEN two versions of a definition overlap THEN validation fails', () => {
+      const data = [
+        createDefinition({ version: '2024', effectiveUntil: '2025-01-01' }),
+        createDefinition({ version: '2025', effectiveFrom: '2024-10-01' }),
+      ];
+
+      expect(() => parseSLADefinitions(data)).toThrow(/versions "2024" and "2025" overlap/);
+    });
+
+    it('WHEN a version ends before it starts THEN validation fails', () => {
+      const data = [createDefinition({ effectiveFrom: '2025-01-01', effectiveUntil: '2024-01-01' })];
+
+      expect(() => parseSLADefinitions(data)).toThrow(/effectiveFrom must be before effectiveUntil/);
+    });
+  });
+
+  describe('GIVEN several versions of an SLA', () => {
+    // Given: Terms revised on 2025-01-01 from 99.9% to 99.95%
+    const versions = parseSLADefinitions([
+      createDefinition({ version: '2024', effectiveUntil: '2025-01-01', target: 99.9, creditTiers: [{ below: 99.9, credit: 10 }] }),
+      createDefinition({ version: '2025', effectiveFrom: '2025-01-01' }),
+    ]);
+
+    it('WHEN looking up a moment THEN the version in force is returned', () => {
+      expect(findSLAVersion(versions, 'enterprise', new Date('2024-12-31T23:59:59Z')).version).toBe('2024');
+      expect(findSLAVersion(versions, 'enterprise', new Date('2025-01-01T00:00:00Z')).version).toBe('2025');
+    });
+
+    it('WHEN no version covers the moment THEN it throws', () => {
+      const closed = parseSLADefinitions([createDefinition({ effectiveFrom: '2025-01-01' })]);
+
+      expect(() => findSLAVersion(closed, 'enterprise', new Date('2024-06-01T00:00:00Z'))).toThrow(/No version/);
+    });
+
+    it('WHEN evaluating a period under the old terms THEN the new target does not restate it', () => {
+      // Given: 30 minutes of downtime in a 30-day month (99.9306%)
+      const start = new Date('2024-04-01T00:00:00Z');
+      const end = new Date('2024-05-01T00:00:00Z');
+
+      // When: Evaluating under the version in force at the period start
+      const result = evaluateUptime(30, start, end, findSLAVersion(versions, 'enterprise', start));
+
+      // Then: The 2024 version's 99.9% target passes it
+      expect(result.slaViolation).toBe(false);
+    });
+
+    it('WHEN calculating a component SLA THEN the result records the version used', () => {
+      const result = calculateComponentSLA(
+        [],
+        'Git Operations',
+        new Date('2025-04-01T00:00:00Z'),
+        new Date('2025-07-01T00:00:00Z'),
+        { asOf: new Date('2025-08-01T00:00:00Z') }
+      );
+
+      expect(result.slaVersion).toBe('June 2021');
+    });
+  });
+
+  describe('GIVEN credit tiers', () => {
+    it('WHEN uptime falls below several tiers THEN the highest credit applies', () => {
+      const definition = createDefinition();
+
+      expect(getServiceCredit(99.97, definition)).toBe(0);
+      expect(getServiceCredit(99.9, definition)).toBe(15);
+      expect(getServiceCredit(99.2, definition)).toBe(30);
+      expect(getServiceCredit(98, definition)).toBe(50);
+    });
+
+    it('WHEN evaluating uptime under a stricter contract THEN its target decides the violation', () => {
+      // Given: 30 minutes of downtime in a 30-day month (99.9306%)
+      const start = new Date('2025-04-01T00:00:00Z');
+      const end = new Date('2025-05-01T00:00:00Z');
+
+      // When: Evaluating under both definitions
+      const standard = evaluateUptime(30, start, end);
+      const enterprise = evaluateUptime(30, start, end, createDefinition());
+
+      // Then: Only the 99.95% contract is violated
+      expect(standard.slaViolation).toBe(false);
+      expect(enterprise.slaViolation).toBe(true);
+      expect(enterprise.serviceCredit).toBe(15);
+    });
+  });
+
+  describe('GIVEN a component SLA calculation', () => {
+    it('WHEN a definition lists a service THEN its calculation method is used', () => {
+      // Given: A contract measuring Git Operations by executions
+      const definition = createDefinition({
+        services: [
+          { name: 'Git Operations', category: 'actions', calculationMethod: 'execution-based', hasAccurateData: false },
+        ],
+      });
+      const incidents: CollectionEntry<'incidents'>[] = [];
+
+      // When: Calculating the quarter
+      const result = calculateComponentSLA(
+        incidents,
+        'Git Operations',
+        new Date('2025-04-01T00:00:00Z'),
+        new Date('2025-07-01T00:00:00Z'),
+        { definition, asOf: new Date('2025-08-01T00:00:00Z') }
+      );
+
+      // Then: The result follows the definition
+      expect(result.calculationMethod).toBe('execution-based');
+      expect(result.hasAccurateData).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * SLA Definitions
+ * The rules an SLA is evaluated against, loaded from src/data/sla-definitions.json
+ *
+ * A definition lists the covered services and how each is measured, the uptime target,
+ * the service credit tiers and the window the target applies to. Only calendar quarters are
+ * supported as the window: every period is evaluated and credited per quarter, so any other
+ * window is rejected rather than silently evaluated quarterly. The standard GitHub SLA ships
+ * as "github-standard"; negotiated contracts can be added as further entries.
+ *
+ * Each entry is one version of an SLA, in force from `effectiveFrom` (inclusive) until
+ * `effectiveUntil` (exclusive). When terms are revised, add a new version with the same id
+ * and close the previous one, so past periods keep being evaluated under their own terms.
+ * A period is evaluated under the version in force when it starts.
+ *
+ * With `maintenanceExclusion`, scheduled maintenance announced with enough notice is taken out of
+ * the period (see maintenance.ts); without it, maintenance time counts like any other time.
+ */
+
+import { z } from 'astro/zod';
+import definitionsData from '../data/sla-definitions.json';
+
+/**
+ * SLA Calculation Methods per GitHub's official SLA document
+ *
+ * - time-based (Service Features): (total minutes - minutes with >5% error rate) / total minutes × 100
+ *   We approximate this from incident duration and impact, but cannot detect the 5% threshold itself.
+ * - execution-based (Actions): (total executions - failed executions) / total executions × 100
+ *   Execution counts and failure rates are not exposed by the public API.
+ * - hybrid (Packages): execution-based Package Transfers plus time-based Package Storage
+ *   Neither transfer counts nor storage error rates are exposed by the public API.
+ */
+export type CalculationMethod = 'time-based' | 'execution-based' | 'hybrid';
+
+/**
+ * Service categories, used to group services on the quarter page
+ */
+export type ServiceCategory = 'service-features' | 'actions' | 'packages';
+
+export const DEFAULT_SLA_DEFINITION_ID = 'github-standard';
+
+const creditTierSchema = z.object({
+  // Credit applies when uptime is below this percentage
+  below: z.number().gt(0).lte(100),
+  credit: z.number().gt(0).lte(100),
+});
+
+const serviceDefinitionSchema = z.object({
+  name: z.string().min(1),
+  category: z.enum(['service-features', 'actions', 'packages']),
+  calculationMethod: z.enum(['time-based', 'execution-based', 'hybrid']),
+  // False when the calculation needs data the public API does not provide
+  hasAccurateData: z.boolean(),
+  secondaryMetric: z.object({
+    name: z.string(),
+    note: z.string(),
+  }).optional(),
+});
+
+// ISO date, or null for an open end
+const effectiveDateSchema = z.string().refine(value => !isNaN(new Date(value).getTime()), 'Invalid date').nullable();
+
+const slaDefinitionSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  source: z.string(),
+  version: z.string().min(1),
+  // null: also applies to periods before any recorded version
+  effectiveFrom: effectiveDateSchema,
+  // null: still in force
+  effectiveUntil: effectiveDateSchema,
+  target: z.number().gt(0).lte(100),
+  // Periods are evaluated and credited per calendar quarter; no other window is supported yet
+  measurementWindow: z.enum(['quarter']),
+  creditTiers: z.array(creditTierSchema).min(1),
+  services: z.array(serviceDefinitionSchema).min(1),
+  maintenanceExclusion: z.object({
+    // Maintenance announced at least this long before its planned start is excluded
+    minimumNoticeHours: z.number().min(0),
+  }).optional(),
+}).superRefine((definition, ctx) => {
+  if (definition.creditTiers.some(tier => tier.below > definition.target)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Credit tiers cannot start above the target', path: ['creditTiers'] });
+  }
+  const names = definition.services.map(service => service.name);
+  if (new Set(names).size !== names.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Service names must be unique', path: ['services'] });
+  }
+  if (definition.effectiveFrom && definition.effectiveUntil
+    && new Date(definition.effectiveFrom) >= new Date(definition.effectiveUntil)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'effectiveFrom must be before effectiveUntil', path: ['effectiveUntil'] });
+  }
+});
+
+export type CreditTier = z.infer<typeof creditTierSchema>;
+export type ServiceDefinition = z.infer<typeof serviceDefinitionSchema>;
+export type SLADefinition = z.infer<typeof slaDefinitionSchema>;
+
+/**
+ * Validate raw SLA definitions
+ * @throws Error listing every problem when the data does not match the schema
+ */
+export function parseSLADefinitions(data: unknown): SLADefinition[] {
+  const result = z.array(slaDefinitionSchema).safeParse(data);
+
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`);
+    throw new Error(`Invalid SLA definitions: ${issues.join('; ')}`);
+  }
+
+  // Versions of the same SLA must not overlap
+  for (const [index, definition] of result.data.entries()) {
+    const overlapping = result.data.slice(index + 1).find(other =>
+      other.id === definition.id && rangesOverlap(definition, other)
+    );
+    if (overlapping) {
+      throw new Error(
+        `Invalid SLA definitions: ${definition.id} versions "${definition.version}" and "${overlapping.version}" overlap`
+      );
+    }
+  }
+
+  return result.data;
+}
+
+/**
+ * Whether two versions' effective ranges overlap (null ends are unbounded)
+ */
+function rangesOverlap(a: SLADefinition, b: SLADefinition): boolean {
+  const start = (d: SLADefinition) => d.effectiveFrom ? new Date(d.effectiveFrom).getTime() : -Infinity;
+  const end = (d: SLADefinition) => d.effectiveUntil ? new Date(d.effectiveUntil).getTime() : Infinity;
+  return start(a) < end(b) && start(b) < end(a);
+}
+
+/**
+ * Whether a version is in force at a moment
+ */
+export function isInForce(definition: SLADefinition, at: Date): boolean {
+  const time = at.getTime();
+  return (!definition.effectiveFrom || new Date(definition.effectiveFrom).getTime() <= time)
+    && (!definition.effectiveUntil || time < new Date(definition.effectiveUntil).getTime());
+}
+
+/**
+ * Find the version of an SLA in force at a moment
+ * @throws Error when the id is unknown or no version covers the moment
+ */
+export function findSLAVersion(definitions: SLADefinition[], id: string, at: Date): SLADefinition {
+  const versions = definitions.filter(d => d.id === id);
+  if (versions.length === 0) {
+    throw new Error(`Unknown SLA definition: ${id}`);
+  }
+
+  const version = versions.find(d => isInForce(d, at));
+  if (!version) {
+    throw new Error(`No version of SLA definition ${id} is in force at ${at.toISOString()}`);
+  }
+  return version;
+}
+
+export const SLA_DEFINITIONS = parseSLADefinitions(definitionsData);
+
+/**
+ * Get the version of an SLA in force at a moment
+ *
+ * @param id - Definition id (defaults to the standard GitHub SLA)
+ * @param at - Moment the version must be in force (defaults to now); use the period start when evaluating a period
+ */
+export function getSLADefinition(id: string = DEFAULT_SLA_DEFINITION_ID, at: Date = new Date()): SLADefinition {
+  return findSLAVersion(SLA_DEFINITIONS, id, at);
+}
+
+/**
+ * Pick the SLA version for a period from calculation options
+ * A pinned `definition` wins; otherwise the version of `slaDefinitionId` in force at the period start
+ */
+export function resolveSLADefinition(
+  options: { definition?: SLADefinition; slaDefinitionId?: string },
+  periodStart: Date
+): SLADefinition {
+  return options.definition ?? getSLADefinition(options.slaDefinitionId, periodStart);
+}
+
+/**
+ * Get how a service is measured, if the definition covers it
+ */
+export function getServiceDefinition(definition: SLADefinition, componentName: string): ServiceDefinition | undefined {
+  return definition.services.find(service => service.name === componentName);
+}
+
+/**
+ * Get the names of all services covered by a definition
+ */
+export function getServiceNames(definition: SLADefinition): string[] {
+  return definition.services.map(service => service.name);
+}
+
+/**
+ * Get the names of the services in one category
+ */
+export function getServicesByCategory(definition: SLADefinition, category: ServiceCategory): string[] {
+  return definition.services.filter(service => service.category === category).map(service => service.name);
+}
+
+/**
+ * Get the service credit (percentage) owed for an uptime
+ * The highest tier whose threshold the uptime falls below applies
+ */
+export function getServiceCredit(uptimePercentage: number, definition: SLADefinition): number {
+  return definition.creditTiers
+    .filter(tier => uptimePercentage < tier.below)
+    .reduce((credit, tier) => Math.max(credit, tier.credit), 0);
+}
+
+/**
+ * Get the lowest credit tier threshold (e.g. 99.0 for the standard SLA)
+ */
+export function getLowestTierThreshold(definition: SLADefinition): number {
+  return Math.min(...definition.creditTiers.map(tier => tier.below));
+}
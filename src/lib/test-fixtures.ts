@@ -0,0 +1,93 @@
+/**
+ * Test Fixtures
+ * Typed incident entries shared by the test suites, shaped like the content collection's output
+ * (components already resolved to canonical IDs)
+ */
+
+import type { CollectionEntry } from 'astro:content';
+import { resolveComponentIds } from './component-registry';
+
+// Type for incident entries from content collections
+type IncidentEntry = CollectionEntry<'incidents'>;
+type IncidentData = IncidentEntry['data'];
+
+export type IncidentImpact = IncidentData['impact'];
+
+export interface IncidentFixtureOptions extends Partial<IncidentData> {
+  // Body of the opening "investigating" update
+  text?: string;
+}
+
+/**
+ * Resolve component names the way the content collection does
+ */
+export function createComponents(componentNames: string[]): IncidentData['components'] {
+  return componentNames.map(name => ({ name, componentIds: resolveComponentIds(name) }));
+}
+
+/**
+ * Create an incident from its creation and resolution times, without status updates
+ * @param resolvedAt - Resolution time, or null while the incident is ongoing
+ */
+export function createMockIncident(
+  id: string,
+  createdAt: string,
+  resolvedAt: string | null,
+  impact: IncidentImpact,
+  componentNames: string[] = ['Git Operations']
+): IncidentEntry {
+  return {
+    id,
+    collection: 'incidents',
+    data: {
+      id,
+      name: `Incident ${id}`,
+      status: resolvedAt ? 'resolved' : 'investigating',
+      impact,
+      created_at: createdAt,
+      updated_at: createdAt,
+      started_at: createdAt,
+      resolved_at: resolvedAt,
+      shortlink: `https://stspg.io/${id}`,
+      incident_updates: [],
+      components: createComponents(componentNames),
+    },
+  };
+}
+
+/**
+ * Create a resolved critical incident lasting `durationMinutes`, with an investigating and a
+ * resolved update
+ * @param options - Replaces any field of the incident data, e.g. `{ impact: 'major' }`
+ */
+export function createIncident(
+  id: string,
+  start: string,
+  durationMinutes: number,
+  componentNames: string[] = ['Git Operations'],
+  options: IncidentFixtureOptions = {}
+): IncidentEntry {
+  const { text = 'We are investigating.', ...overrides } = options;
+  const end = new Date(new Date(start).getTime() + durationMinutes * 60 * 1000).toISOString();
+  return {
+    id,
+    collection: 'incidents',
+    data: {
+      id,
+      name: `Incident with ${componentNames.join(' and ') || 'GitHub'}`,
+      status: 'resolved',
+      impact: 'critical',
+      created_at: start,
+      updated_at: end,
+      started_at: start,
+      resolved_at: end,
+      shortlink: `https://stspg.io/${id}`,
+      incident_updates: [
+        { id: `${id}-1`, status: 'investigating', body: text, created_at: start },
+        { id: `${id}-2`, status: 'resolved', body: 'This incident has been resolved.', created_at: end },
+      ],
+      components: createComponents(componentNames),
+      ...overrides,
+    },
+  };
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getIncidentTimeBounds,
+  getImpactWeightBounds,
+  getSLAVerdict,
+  isScrapedIncident,
+} from './uptime-bounds';
+import { createIncident, type IncidentFixtureOptions } from './test-fixtures';
+
+/**
+ * Test Suite for Uptime Uncertainty Bounds
+ */
+
+// Helper to create an incident whose timestamps disagree
+function createSkewedIncident(overrides: IncidentFixtureOptions = {}) {
+  return createIncident('bounds-1', '2025-02-15T10:00:00Z', 110, ['Actions'], {
+    impact: 'major',
+    created_at: '2025-02-15T10:05:00Z',
+    updated_at: '2025-02-15T12:00:00Z',
+    incident_updates: [
+      { id: 'u2', status: 'resolved', body: 'Resolved', created_at: '2025-02-15T11:45:00Z' },
+      { id: 'u1', status: 'investigating', body: 'Investigating', created_at: '2025-02-15T10:05:00Z' },
+    ],
+    ...overrides,
+  });
+}
+
+const iso = (time: number) => new Date(time).toISOString();
+
+describe('Incident Time Bounds Tests', () => {
+  describe('GIVEN an API incident with disagreeing timestamps', () => {
+    it('WHEN bounding its span THEN the worst case takes the widest timestamps', () => {
+      const { worst } = getIncidentTimeBounds(createSkewedIncident());
+
+      expect(iso(worst.start)).toBe('2025-02-15T10:00:00.000Z'); // started_at
+      expect(iso(worst.end)).toBe('2025-02-15T11:50:00.000Z'); // resolved_at
+    });
+
+    it('WHEN bounding its span THEN the best case takes the narrowest timestamps', () => {
+      const { best } = getIncidentTimeBounds(createSkewedIncident());
+
+      expect(iso(best.start)).toBe('2025-02-15T10:05:00.000Z'); // created_at / first update
+      expect(iso(best.end)).toBe('2025-02-15T11:45:00.000Z'); // resolved update
+    });
+  });
+
+  describe('GIVEN a scraped incident', () => {
+    it('WHEN bounding its span THEN adds a minute of slack on each side', () => {
+      // Given: Scraped updates with minute-precision timestamps
+      const incident = createSkewedIncident({
+        started_at: null,
+        resolved_at: '2025-02-15T11:00:00Z',
+        created_at: '2025-02-15T10:00:00Z',
+        incident_updates: [
+          { id: 'update_0', status: 'investigating', body: '', created_at: '2025-02-15T10:00:00Z' },
+          { id: 'update_1', status: 'resolved', body: '', created_at: '2025-02-15T11:00:00Z' },
+        ],
+      });
+
+      // When: Bounding the span
+      const { best, worst } = getIncidentTimeBounds(incident);
+
+      // Then: Worst is 62 minutes, best is 58 minutes
+      expect(isScrapedIncident(incident)).toBe(true);
+      expect((worst.end - worst.start) / 60000).toBe(62);
+      expect((best.end - best.start) / 60000).toBe(58);
+    });
+  });
+
+  describe('GIVEN an unresolved incident', () => {
+    it('WHEN bounding its span THEN both cases end at asOf', () => {
+      const incident = createSkewedIncident({ status: 'investigating', resolved_at: null, incident_updates: [] });
+      const asOf = new Date('2025-02-15T13:00:00Z');
+
+      const { best, worst } = getIncidentTimeBounds(incident, asOf);
+
+      expect(iso(best.end)).toBe(asOf.toISOString());
+      expect(iso(worst.end)).toBe(asOf.toISOString());
+    });
+  });
+});
+
+describe('Impact Weight Bounds Tests', () => {
+  it('WHEN the impact is minor THEN the range spans the profiles', () => {
+    expect(getImpactWeightBounds('minor')).toEqual({ min: 0, max: 1 });
+  });
+
+  it('WHEN the impact is critical THEN every profile agrees', () => {
+    expect(getImpactWeightBounds('critical')).toEqual({ min: 1, max: 1 });
+  });
+});
+
+describe('SLA Verdict Tests', () => {
+  it('WHEN even the best case violates THEN the violation is definite', () => {
+    expect(getSLAVerdict(true, true)).toBe('definite-violation');
+  });
+
+  it('WHEN even the worst case passes THEN the pass is definite', () => {
+    expect(getSLAVerdict(false, false)).toBe('definite-pass');
+  });
+
+  it('WHEN the range straddles the threshold THEN the verdict is uncertain', () => {
+    expect(getSLAVerdict(false, true)).toBe('uncertain');
+  });
+});
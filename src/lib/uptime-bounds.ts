@@ -0,0 +1,119 @@
+/**
+ * Uptime Uncertainty Bounds
+ * Best-case and worst-case inputs for an incident's downtime
+ *
+ * The computed uptime rests on guesses: which timestamp the incident really started at,
+ * which one marks its resolution, how precise scraped timestamps are, and how much of
+ * an impact counts as downtime. Bounding each guess gives a range the true uptime
+ * should fall in, and tells us whether the SLA verdict can be trusted.
+ */
+
+import type { CollectionEntry } from 'astro:content';
+import { IMPACT_PROFILE_NAMES, getProfileImpactMultiplier, getProfileStatusMultiplier } from './impact-profiles';
+
+// Type for incident entries from content collections
+type IncidentEntry = CollectionEntry<'incidents'>;
+
+/**
+ * Where the computed uptime range sits relative to the SLA threshold
+ */
+export type SLAVerdict = 'definite-pass' | 'definite-violation' | 'uncertain';
+
+export interface UptimeBounds {
+  best: number; // Uptime % with the most favourable inputs
+  worst: number; // Uptime % with the least favourable inputs
+}
+
+/**
+ * Time span of an incident (epoch ms)
+ */
+export interface TimeSpan {
+  start: number;
+  end: number;
+}
+
+// Scraped history pages only show minutes
+export const SCRAPED_TIMESTAMP_SLACK_MINUTES = 1;
+
+/**
+ * Whether an incident was scraped from the history pages rather than fetched from the API
+ * The scraper names updates "update_0", "update_1", ...
+ */
+export function isScrapedIncident(incident: IncidentEntry): boolean {
+  const updates = incident.data.incident_updates;
+  return updates.length > 0 && updates.every(update => /^update_\d+$/.test(update.id));
+}
+
+/**
+ * Get the shortest and longest plausible spans of an incident
+ *
+ * - Start: any of started_at, created_at and the first update may mark the real start
+ * - End: the resolved update and resolved_at may disagree; updated_at is used only when neither exists
+ * - Scraped incidents get an extra minute of slack on each side
+ * - Unresolved incidents end at `asOf` in both cases
+ */
+export function getIncidentTimeBounds(
+  incident: IncidentEntry,
+  asOf: Date = new Date()
+): { best: TimeSpan; worst: TimeSpan } {
+  const { data } = incident;
+  const toTime = (value: string) => new Date(value).getTime();
+
+  const updateTimes = data.incident_updates.map(update => toTime(update.created_at));
+  const startCandidates = [
+    data.started_at ? toTime(data.started_at) : null,
+    toTime(data.created_at),
+    updateTimes.length > 0 ? Math.min(...updateTimes) : null,
+  ].filter((time): time is number => time !== null && !isNaN(time));
+
+  const resolvedUpdate = data.incident_updates.find(update => update.status === 'resolved');
+  let endCandidates = [
+    resolvedUpdate ? toTime(resolvedUpdate.created_at) : null,
+    data.resolved_at ? toTime(data.resolved_at) : null,
+  ].filter((time): time is number => time !== null && !isNaN(time));
+
+  if (endCandidates.length === 0) {
+    endCandidates = [data.status === 'resolved' ? toTime(data.updated_at) : asOf.getTime()];
+  }
+
+  const slack = isScrapedIncident(incident) ? SCRAPED_TIMESTAMP_SLACK_MINUTES * 60 * 1000 : 0;
+
+  const worstStart = Math.min(...startCandidates) - slack;
+  const worstEnd = Math.max(...endCandidates) + slack;
+  const bestStart = Math.max(...startCandidates) + slack;
+  const bestEnd = Math.min(...endCandidates) - slack;
+
+  return {
+    best: { start: bestStart, end: Math.max(bestStart, bestEnd) },
+    worst: { start: worstStart, end: Math.max(worstStart, worstEnd) },
+  };
+}
+
+/**
+ * Get the lowest and highest weight any profile gives an incident impact
+ */
+export function getImpactWeightBounds(impact: string): { min: number; max: number } {
+  const weights = IMPACT_PROFILE_NAMES.map(profile => getProfileImpactMultiplier(impact, profile));
+  return { min: Math.min(...weights), max: Math.max(...weights) };
+}
+
+/**
+ * Get the lowest and highest weight any profile gives a component status
+ */
+export function getStatusWeightBounds(status: string): { min: number; max: number } {
+  const weights = IMPACT_PROFILE_NAMES.map(profile => getProfileStatusMultiplier(status, profile));
+  return { min: Math.min(...weights), max: Math.max(...weights) };
+}
+
+/**
+ * Classify an uptime range against the SLA threshold
+ *
+ * @param bestIsViolation - Whether even the best case violates the SLA
+ * @param worstIsViolation - Whether the worst case violates the SLA
+ */
+export function getSLAVerdict(bestIsViolation: boolean, worstIsViolation: boolean): SLAVerdict {
+  if (bestIsViolation) {
+    return 'definite-violation';
+  }
+  return worstIsViolation ? 'uncertain' : 'definite-pass';
+}
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import {
+  TREND_SERIES_POINTS,
+  calculateRollingUptime,
+  calculateUptimeTrend,
+  compareYearOverYear,
+  getPreviousYearLabel,
+} from './uptime-trends';
+import { calculateQuarterlySLA } from './sla-calculator';
+import { createIncident } from './test-fixtures';
+
+/**
+ * Test Suite for Uptime Trends
+ *
+ * A 30-day window has 43,200 minutes; 432 weighted minutes of downtime
+ * leave it at 99% uptime.
+ */
+
+const AS_OF = new Date('2025-10-01T00:00:00Z');
+
+describe('Uptime Trends Tests', () => {
+  describe('GIVEN rolling windows', () => {
+    it('WHEN an incident falls in the last 30 days THEN every window ending now includes it', () => {
+      const incidents = [createIncident('a', '2025-09-20T10:00:00Z', 432, ['Actions'])];
+
+      const rolling = calculateUptimeTrend(incidents, 'Actions', AS_OF, { asOf: AS_OF }).rolling;
+
+      expect(rolling.map(w => w.window)).toEqual(['30d', '90d', '365d']);
+      expect(rolling[0].uptimePercentage).toBe(99);
+      expect(rolling.map(w => w.downtimeMinutes)).toEqual([432, 432, 432]);
+    });
+
+    it('WHEN the window ends at an earlier date THEN later incidents are outside it', () => {
+      const incidents = [createIncident('a', '2025-09-20T10:00:00Z', 60, ['Actions'])];
+
+      const window = calculateRollingUptime(incidents, 'Actions', 30, new Date('2025-09-01T00:00:00Z'), { asOf: AS_OF });
+
+      expect(window.startDate).toEqual(new Date('2025-08-02T00:00:00Z'));
+      expect(window.incidentCount).toBe(0);
+      expect(window.uptimePercentage).toBe(100);
+    });
+
+    it('WHEN building the sparkline series THEN it steps weekly up to the end date, oldest first', () => {
+      const { series } = calculateUptimeTrend([], 'Actions', AS_OF, { asOf: AS_OF });
+
+      expect(series).toHaveLength(TREND_SERIES_POINTS);
+      expect(series[series.length - 1].endDate).toEqual(AS_OF);
+      expect(series[series.length - 2].endDate).toEqual(new Date('2025-09-24T00:00:00Z'));
+    });
+  });
+
+  describe('GIVEN the same quarter in two years', () => {
+    it('WHEN comparing them THEN changes are this year minus last year', () => {
+      // Given: Q3 2024 with 2 hours down over 2 incidents, Q3 2025 with 1 hour over 1
+      const incidents = [
+        createIncident('a', '2024-08-01T10:00:00Z', 60, ['Actions']),
+        createIncident('b', '2024-08-10T10:00:00Z', 60, ['Actions']),
+        createIncident('c', '2025-08-01T10:00:00Z', 60, ['Actions']),
+      ];
+      const quarter = (year: number) => ({
+        label: `${year}-Q3`,
+        slaResults: calculateQuarterlySLA(incidents, year, 3, ['Actions'], { asOf: AS_OF }),
+      });
+
+      const [comparison] = compareYearOverYear(quarter(2025), quarter(2024));
+
+      expect(comparison.previous.label).toBe('2024-Q3');
+      expect(comparison.downtimeChange).toBe(-60);
+      expect(comparison.incidentChange).toBe(-1);
+      expect(comparison.uptimeChange).toBeGreaterThan(0);
+    });
+
+    it('WHEN naming the earlier quarter THEN only the year changes', () => {
+      expect(getPreviousYearLabel('2025-Q3')).toBe('2024-Q3');
+    });
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Uptime Trends
+ * Rolling-window uptime per component and year-over-year quarter comparisons, to tell whether
+ * availability is improving beyond a single quarter
+ *
+ * A rolling window ends at any moment and reaches back a fixed number of days, so it moves
+ * smoothly instead of resetting at quarter boundaries. Each window is evaluated like any other
+ * SLA period, under the SLA version in force when it starts.
+ */
+
+import type { CollectionEntry } from 'astro:content';
+import { calculateComponentSLA, withFixedAsOf, type SLACalculationOptions, type SLAResult } from './sla-calculator';
+
+// Type for incident entries from content collections
+type IncidentEntry = CollectionEntry<'incidents'>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const ROLLING_WINDOWS = [
+  { label: '30d', days: 30 },
+  { label: '90d', days: 90 },
+  { label: '365d', days: 365 },
+] as const;
+
+// Sparkline: the 30-day window, stepped weekly over the last year
+export const TREND_SERIES_DAYS = 30;
+export const TREND_SERIES_POINTS = 52;
+export const TREND_SERIES_STEP_DAYS = 7;
+
+export interface RollingUptime {
+  window: string; // e.g. "30d"
+  startDate: Date;
+  endDate: Date;
+  uptimePercentage: number;
+  downtimeMinutes: number; // Weighted
+  incidentCount: number;
+  hasInsufficientData: boolean;
+}
+
+export interface ComponentUptimeTrend {
+  componentName: string;
+  rolling: RollingUptime[]; // One per ROLLING_WINDOWS entry
+  series: RollingUptime[]; // Oldest first
+}
+
+/**
+ * Quarter totals of one component, as compared year over year
+ */
+export interface PeriodTotals {
+  label: string;
+  uptimePercentage: number;
+  downtimeMinutes: number;
+  incidentCount: number;
+  hasInsufficientData: boolean;
+}
+
+export interface YearOverYearComparison {
+  componentName: string;
+  current: PeriodTotals;
+  previous: PeriodTotals;
+  // Negative when this year is better on downtime and incidents
+  downtimeChange: number;
+  incidentChange: number;
+  uptimeChange: number; // Percentage points; positive when this year is better
+}
+
+/**
+ * Calculate uptime of one component over the `days` days ending at `endDate`
+ */
+export function calculateRollingUptime(
+  incidents: IncidentEntry[],
+  componentName: string,
+  days: number,
+  endDate: Date,
+  options: SLACalculationOptions = {}
+): RollingUptime {
+  const startDate = new Date(endDate.getTime() - days * DAY_MS);
+  const result = calculateComponentSLA(incidents, componentName, startDate, endDate, options);
+
+  return {
+    window: `${days}d`,
+    startDate,
+    endDate,
+    uptimePercentage: result.uptimePercentage,
+    downtimeMinutes: result.totalDowntimeMinutes,
+    incidentCount: result.incidentCount,
+    hasInsufficientData: result.hasInsufficientData,
+  };
+}
+
+/**
+ * Calculate the rolling windows and the sparkline series of one component, ending at `endDate`
+ */
+export function calculateUptimeTrend(
+  incidents: IncidentEntry[],
+  componentName: string,
+  endDate: Date,
+  options: SLACalculationOptions = {}
+): ComponentUptimeTrend {
+  const fixedOptions = withFixedAsOf(incidents, options);
+  const series = Array.from({ length: TREND_SERIES_POINTS }, (_, i) => {
+    const stepsBack = TREND_SERIES_POINTS - 1 - i;
+    const pointEnd = new Date(endDate.getTime() - stepsBack * TREND_SERIES_STEP_DAYS * DAY_MS);
+    return calculateRollingUptime(incidents, componentName, TREND_SERIES_DAYS, pointEnd, fixedOptions);
+  });
+
+  return {
+    componentName,
+    rolling: ROLLING_WINDOWS.map(({ days }) => calculateRollingUptime(incidents, componentName, days, endDate, fixedOptions)),
+    series,
+  };
+}
+
+/**
+ * Calculate uptime trends for several components
+ */
+export function calculateUptimeTrends(
+  incidents: IncidentEntry[],
+  componentNames: string[],
+  endDate: Date,
+  options: SLACalculationOptions = {}
+): ComponentUptimeTrend[] {
+  const fixedOptions = withFixedAsOf(incidents, options);
+  return componentNames.map(name => calculateUptimeTrend(incidents, name, endDate, fixedOptions));
+}
+
+/**
+ * Get the label of the same quarter one year earlier (e.g. "2025-Q3" -> "2024-Q3")
+ */
+export function getPreviousYearLabel(quarterLabel: string): string {
+  const [year, quarter] = quarterLabel.split('-');
+  return `${Number(year) - 1}-${quarter}`;
+}
+
+function toPeriodTotals(label: string, result: SLAResult): PeriodTotals {
+  return {
+    label,
+    uptimePercentage: result.uptimePercentage,
+    downtimeMinutes: result.totalDowntimeMinutes,
+    incidentCount: result.incidentCount,
+    hasInsufficientData: result.hasInsufficientData,
+  };
+}
+
+/**
+ * Compare each component of a quarter with the same quarter a year earlier
+ * Components missing from the earlier quarter are left out
+ */
+export function compareYearOverYear(
+  current: { label: string; slaResults: SLAResult[] },
+  previous: { label: string; slaResults: SLAResult[] }
+): YearOverYearComparison[] {
+  return current.slaResults.flatMap(result => {
+    const earlier = previous.slaResults.find(r => r.componentName === result.componentName);
+    if (!earlier) return [];
+
+    return [{
+      componentName: result.componentName,
+      current: toPeriodTotals(current.label, result),
+      previous: toPeriodTotals(previous.label, earlier),
+      downtimeChange: result.totalDowntimeMinutes - earlier.totalDowntimeMinutes,
+      incidentChange: result.incidentCount - earlier.incidentCount,
+      uptimeChange: parseFloat((result.uptimePercentage - earlier.uptimePercentage).toFixed(4)),
+    }];
+  });
+}
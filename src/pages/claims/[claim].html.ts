@@ -0,0 +1,30 @@
+import type { APIRoute, GetStaticPaths } from "astro";
+import { getRecentQuarters } from "../../lib/date-utils";
+import { getBuildResults, getQuarterResults } from "../../lib/results-dataset";
+import {
+  buildClaimReports,
+  renderClaimHtml,
+  type ClaimReport,
+} from "../../lib/claim-report";
+
+// One standalone HTML file per violation in the dashboard's quarters
+export const getStaticPaths = (async () => {
+  const { asOf, slaDefinitionId, incidents, maintenances, results } = await getBuildResults();
+  const quarters = getRecentQuarters(8, asOf).map((quarter) => getQuarterResults(results, quarter.label));
+
+  return buildClaimReports(incidents, quarters, { asOf, maintenances, slaDefinitionId }).map((report) => ({
+    params: { claim: report.slug },
+    props: { report },
+  }));
+}) satisfies GetStaticPaths;
+
+export const GET: APIRoute = ({ props }) => {
+  const { report } = props as { report: ClaimReport };
+
+  return new Response(renderClaimHtml(report), {
+    headers: {
+      "Content-Type": "text/html; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${report.slug}.html"`,
+    },
+  });
+};
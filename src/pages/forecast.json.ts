@@ -0,0 +1,12 @@
+import type { APIRoute } from "astro";
+import { getBuildResults } from "../lib/results-dataset";
+
+// End-of-period forecasts for the month and quarter in progress at build time
+export const GET: APIRoute = async () => {
+  const { asOf, results } = await getBuildResults();
+  const { forecasts } = results;
+
+  return new Response(JSON.stringify({ asOf: asOf.toISOString(), forecasts }, null, 2), {
+    headers: { "Content-Type": "application/json; charset=utf-8" },
+  });
+};
@@ -0,0 +1,23 @@
+import type { APIRoute } from "astro";
+import { getRecentQuarters } from "../lib/date-utils";
+import { getSLADefinition, getServiceNames } from "../lib/sla-definitions";
+import { getBuildResults, getQuarterResults } from "../lib/results-dataset";
+import type { ReliabilityMetrics } from "../lib/reliability-metrics";
+
+// Response-time percentiles and MTBF per component for the last eight quarters, oldest first
+export const GET: APIRoute = async () => {
+  const { asOf, slaDefinitionId, results } = await getBuildResults();
+  const services = getServiceNames(getSLADefinition(slaDefinitionId, asOf));
+  const quarters = getRecentQuarters(8, asOf).reverse().map((quarter) => getQuarterResults(results, quarter.label));
+
+  const components: Record<string, ReliabilityMetrics[]> = Object.fromEntries(
+    services.map((name) => [
+      name,
+      quarters.flatMap((quarter) => quarter.reliability.filter((metrics) => metrics.componentName === name)),
+    ]),
+  );
+
+  return new Response(JSON.stringify({ asOf: asOf.toISOString(), components }, null, 2), {
+    headers: { "Content-Type": "application/json; charset=utf-8" },
+  });
+};
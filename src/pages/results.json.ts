@@ -0,0 +1,11 @@
+import type { APIRoute } from "astro";
+import { getBuildResults } from "../lib/results-dataset";
+
+// The full results dataset every page is built from, for downstream tools
+export const GET: APIRoute = async () => {
+  const { results } = await getBuildResults();
+
+  return new Response(JSON.stringify(results), {
+    headers: { "Content-Type": "application/json; charset=utf-8" },
+  });
+};
@@ -48,22 +48,10 @@ export class ComponentFilter {
         });
     }
 
-    private componentMatches(componentsString: string | undefined, targetComponent: string): boolean {
+    // Filters and cards both carry component IDs resolved by the build
+    private componentMatches(componentsString: string | undefined, targetComponentId: string): boolean {
         if (!componentsString) return false;
 
-        const components = componentsString.split("|");
-        return components.some((component) => {
-            // Normalize and use word boundary matching (mirrors backend logic)
-            const normalized = component.trim().replace(/^and\s+/i, "");
-            const pattern = new RegExp(
-                `\\b${this.escapeRegex(targetComponent)}\\b`,
-                "i",
-            );
-            return pattern.test(normalized);
-        });
-    }
-
-    private escapeRegex(string: string): string {
-        return string.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+        return componentsString.split("|").includes(targetComponentId);
     }
 }